@@ -1,7 +1,6 @@
 import React, { useState, useEffect, useMemo, FormEvent, useCallback, useRef } from 'react';
 import { createRoot } from 'react-dom/client';
 import jsPDF from 'jspdf';
-import html2canvas from 'html2canvas';
 
 
 // --- INTERFACES ---
@@ -12,37 +11,555 @@ interface Deployment {
   endTime: string;
 }
 
+type EntryKind = 'work' | 'pause' | 'onCall' | 'absence';
+
 interface Entry {
   id: string;
   date: string; // YYYY-MM-DD
-  location: string;
-  startTime: string; // HH:MM
-  endTime: string; // HH:MM
-  isChildSick?: boolean;
-  deployments?: Deployment[];
+  kind: EntryKind;
+  absenceTypeId?: string; // Only for absences
+  location: string; // Place of work; the type name for absences and on-call duty
+  startTime: string; // HH:MM, '' for absences and on-call duty
+  endTime: string; // HH:MM, '' for absences and on-call duty
+  isChildSick?: boolean; // Only for sick leave
+  isHalfDay?: boolean; // Only for vacation
+  rangeId?: string; // Shared by all entries created from one from–to range
+  deployments?: Deployment[]; // Only for on-call duty
+}
+
+// A place of work or job offered for autocomplete, with optional billing details.
+interface SavedLocation {
+  name: string;
+  customerNumber: string;
+  address: string;
+  costCentre: string;
+  hourlyRate?: number; // Euros, used by the location report
+}
+
+// A dated booking against the overtime balance. Both kinds lower it by `hours`.
+interface OvertimeBooking {
+  id: string;
+  date: string; // YYYY-MM-DD
+  kind: 'timeOff' | 'payout'; // Freizeitausgleich or Auszahlung
+  hours: number; // Positive; for time off the part of the day's target taken off
+  note: string; // Required for payouts
+}
+
+// Entries saved before the entry kind existed only carry the location text.
+type StoredEntry = Omit<Entry, 'kind'> & { kind?: EntryKind };
+
+interface AbsenceType {
+  id: string;
+  name: string;
+  creditsTarget: boolean; // Credits the day's target; otherwise it is taken from the overtime
+  counter: 'vacation' | 'sick' | 'other'; // Vacation days also reduce the entitlement
+  isBuiltIn?: boolean; // Urlaub and Krank can't be removed
+}
+
+interface WorkTimeModel {
+  id: string;
+  validFrom: string; // YYYY-MM-DD
+  dailyHours: number[]; // Target hours indexed by Date.getDay(), 0 = Sonntag
+}
+
+interface WorkTimeSettings {
+  models: WorkTimeModel[];
+  countMissingDays: boolean;
+  autoDeductBreaks?: boolean;
+  federalState?: string; // Bundesland code for regional holidays, '' for nationwide ones only
+}
+
+interface DaySegment {
+  date: string; // YYYY-MM-DD
+  start: number; // Minutes since midnight
+  end: number; // Minutes since midnight, up to 1440
+}
+
+interface VacationSettings {
+  annualDays: number; // Entitlement per calendar year
+  initialCarryOver: number; // Remaining days brought into the first tracked year
+  carryOverExpiry: string; // MM-DD after which carried-over days expire, '' = never
+}
+
+// Contract rules for on-call duty (Bereitschaft).
+interface OnCallSettings {
+  weekdayAllowance: number; // Flat allowance in euros per on-call day from Monday to Friday
+  weekendAllowance: number; // Per on-call day on a Saturday, Sunday or public holiday
+  minCallOutMinutes: number; // Each deployment is credited with at least this, 0 = no minimum
+  roundingMinutes: number; // Deployment time is rounded up to whole blocks of this, 0 = exact
+}
+
+type SurchargeDays = 'all' | 'saturday' | 'sunday' | 'holiday';
+
+// A payroll surcharge category, e.g. night work. Buckets may overlap; hours count in each.
+interface SurchargeBucket {
+  id: string;
+  name: string;
+  days: SurchargeDays;
+  from: string; // HH:MM
+  to: string; // HH:MM; before `from` for windows across midnight, equal to it for the whole day
+  rate: number; // Percent
+}
+
+interface VacationBalance {
+  entitlement: number;
+  carryOver: number;
+  expired: number;
+  taken: number; // Up to and including today
+  planned: number; // Future-dated
+  remaining: number;
+}
+
+interface DayHours {
+  gross: number; // Hours between start and end of all work entries
+  pause: number; // Booked pause hours overlapping work entries
+  net: number; // Gross minus booked and automatically deducted pauses
+  breakMinutes: number; // Booked pauses plus gaps of 15+ minutes between work entries
+  requiredBreakMinutes: number; // Minimum break according to ArbZG §4
+  autoDeductedMinutes: number;
 }
 
+interface ReportWeek {
+  key: string; // e.g. 2025-W14
+  week: number;
+  from: string; // First day of the week within the report month
+  to: string; // Last day of the week within the report month
+  entries: Entry[];
+  holidays: PublicHoliday[]; // Holidays of the week without regular entries
+  bookings: OvertimeBooking[];
+  workHours: number;
+  targetHours: number;
+  daysOff: number;
+}
+
+interface DayBalance {
+  workHours: number; // Net work plus deployment hours
+  targetHours: number; // Reduced by the credited absence share, 0 on public holidays
+  absenceTypeId?: string;
+  absenceDays: number; // 1, or 0.5 for half a day of vacation
+  holiday?: string; // Name of the public holiday on this day
+}
+
+interface PublicHoliday {
+  date: string; // YYYY-MM-DD
+  name: string;
+}
+
+type PlausibilityCheck = 'overlap' | 'absenceDay' | 'longDay' | 'shortRest' | 'sunday';
+
+interface PlausibilityWarning {
+  check: PlausibilityCheck;
+  date: string;
+  ids: string[]; // Entries and deployments the warning is shown at; empty for the whole day
+  message: string;
+}
+
+// All figures refer to the selected report month; the balances are as of its end.
 interface SummaryMetrics {
-  totalOvertime: number;
-  currentMonthOvertime: number;
-  totalWorkHours: number;
+  openingBalance: number; // Base overtime plus overtime and bookings of all earlier months
+  totalOvertime: number; // Opening balance plus earned overtime plus bookings
+  monthOvertime: number; // Earned by work in the month
+  monthBookings: number; // Time off and payouts booked in the month, never positive
+  monthWorkHours: number;
   vacationDays: number;
   sickDays: number;
+  otherAbsenceDays: Map<string, number>; // Keyed by absence type id
   onCallDays: number;
+  onCallWeekendDays: number; // Part of onCallDays; Saturdays, Sundays and public holidays
+  onCallAllowance: number; // Euros
+  deploymentHours: number; // As credited by the on-call rules; already part of monthWorkHours
+  holidayWorkHours: number; // Already part of monthWorkHours
+}
+
+// The totals of a month as they were when it was submitted.
+type MonthTotals = Omit<SummaryMetrics, 'otherAbsenceDays'>;
+
+// A submitted month. Its entries are read-only until it is unlocked again.
+interface MonthLock {
+  month: string; // YYYY-MM
+  submittedAt: string; // ISO timestamp
+  totals: MonthTotals;
+}
+
+interface AuditLogEvent {
+  month: string; // YYYY-MM
+  action: 'submit' | 'unlock' | 'reset';
+  at: string; // ISO timestamp
+  reason?: string; // Required when unlocking; for a reset, what replaced the data
+}
+
+// One per employee; all entries and settings except the shared ones belong to a profile.
+interface Profile {
+  id: string;
+  name: string; // Copy of the profile's employee name, so the switcher needn't load every profile
+}
+
+// Everything persisted besides the entries; one record per key in the settings store.
+interface PersistedSettings {
+  profiles: Profile[];
+  activeProfileId: string;
+  employeeName: string;
+  savedLocations: (SavedLocation | string)[]; // Plain names were stored before locations had details
+  baseOvertime: number;
+  workTimeSettings: WorkTimeSettings;
+  vacationSettings: VacationSettings;
+  onCallSettings: OnCallSettings;
+  surchargeBuckets: SurchargeBucket[];
+  absenceTypes: AbsenceType[];
+  runningTimer: RunningTimer | null;
+  overtimeBookings: OvertimeBooking[];
+  monthLocks: MonthLock[];
+  auditLog: AuditLogEvent[];
+  exportColumns: ExportColumnId[];
+}
+
+interface PersistedChanges {
+  putEntries: Entry[];
+  deleteEntryIds: string[];
+  settings: Partial<PersistedSettings>;
+  replaceAll?: boolean; // Clears the stores first, used to recover after a failed write
+}
+
+// A file entry that failed validation and is skipped on import.
+interface ImportIssue {
+  index: number; // Position in the file's entries array
+  label: string; // Date and location, as far as readable
+  errors: string[];
+}
+
+interface ImportData {
+  fileName: string;
+  version: number;
+  entries: Entry[]; // Valid entries only
+  issues: ImportIssue[];
+  reportMonth?: string; // YYYY-MM; set in month files written by Monat speichern, which can't replace all data
+  employeeName?: string;
+  savedLocations?: SavedLocation[];
+  baseOvertime?: number;
+  workTimeSettings?: WorkTimeSettings;
+  vacationSettings?: VacationSettings;
+  onCallSettings?: OnCallSettings;
+  surchargeBuckets?: SurchargeBucket[];
+  absenceTypes?: AbsenceType[];
+  overtimeBookings?: OvertimeBooking[];
+  monthLocks?: MonthLock[];
+  auditLog?: AuditLogEvent[];
+}
+
+interface MergePlan {
+  added: Entry[];
+  duplicates: Entry[]; // Same id and content, or the same date, kind, location and times
+  conflicts: { current: Entry; imported: Entry }[]; // Same id, different content
+}
+
+type ImportMode = 'replace' | 'merge' | 'profile';
+
+// The data covered by undo/redo. Settings are not part of the history.
+interface HistorySnapshot {
+  entries: Entry[];
+  overtimeBookings: OvertimeBooking[];
+  savedLocations: SavedLocation[];
+  employeeName: string;
+  baseOvertime: number;
+}
+
+// A clock-in that has not been clocked out yet. Persisted so it survives reloads.
+interface RunningTimer {
+  location: string;
+  startedAt: number; // Epoch milliseconds
+  pauseStartedAt?: number; // Set while a pause is running
 }
 
 type ShareState = 'idle' | 'preparing' | 'ready' | 'error';
 
 
+// --- CONSTANTS ---
+// Weekday order used in the UI (Montag first), mapped to Date.getDay() indices.
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+const WEEKDAY_SHORT_NAMES = ['So', 'Mo', 'Di', 'Mi', 'Do', 'Fr', 'Sa'];
+
+const DEFAULT_WORK_TIME_SETTINGS: WorkTimeSettings = {
+  models: [{ id: 'default', validFrom: '2000-01-01', dailyHours: [0, 8, 8, 8, 8, 6, 0] }],
+  countMissingDays: false,
+  autoDeductBreaks: false,
+  federalState: '',
+};
+
+const DEFAULT_ABSENCE_TYPES: AbsenceType[] = [
+  { id: 'urlaub', name: 'Urlaub', creditsTarget: true, counter: 'vacation', isBuiltIn: true },
+  { id: 'krank', name: 'Krank', creditsTarget: true, counter: 'sick', isBuiltIn: true },
+  { id: 'sonderurlaub', name: 'Sonderurlaub', creditsTarget: true, counter: 'other' },
+  { id: 'fortbildung', name: 'Fortbildung', creditsTarget: true, counter: 'other' },
+  { id: 'gleittag', name: 'Gleittag', creditsTarget: false, counter: 'other' },
+  { id: 'berufsschule', name: 'Berufsschule', creditsTarget: true, counter: 'other' },
+  { id: 'dienstreise', name: 'Dienstreise', creditsTarget: true, counter: 'other' },
+];
+
+const ABSENCE_COUNTER_LABELS: Record<AbsenceType['counter'], string> = {
+  vacation: 'Urlaubstage',
+  sick: 'Krankentage',
+  other: 'Sonstige',
+};
+
+const FEDERAL_STATES = [
+  { code: 'BW', name: 'Baden-Württemberg' },
+  { code: 'BY', name: 'Bayern' },
+  { code: 'BE', name: 'Berlin' },
+  { code: 'BB', name: 'Brandenburg' },
+  { code: 'HB', name: 'Bremen' },
+  { code: 'HH', name: 'Hamburg' },
+  { code: 'HE', name: 'Hessen' },
+  { code: 'MV', name: 'Mecklenburg-Vorpommern' },
+  { code: 'NI', name: 'Niedersachsen' },
+  { code: 'NW', name: 'Nordrhein-Westfalen' },
+  { code: 'RP', name: 'Rheinland-Pfalz' },
+  { code: 'SL', name: 'Saarland' },
+  { code: 'SN', name: 'Sachsen' },
+  { code: 'ST', name: 'Sachsen-Anhalt' },
+  { code: 'SH', name: 'Schleswig-Holstein' },
+  { code: 'TH', name: 'Thüringen' },
+];
+
+const DEFAULT_VACATION_SETTINGS: VacationSettings = {
+  annualDays: 30,
+  initialCarryOver: 0,
+  carryOverExpiry: '03-31',
+};
+
+// Without rules, deployments count exactly as recorded and no allowance is paid.
+const DEFAULT_ON_CALL_SETTINGS: OnCallSettings = {
+  weekdayAllowance: 0,
+  weekendAllowance: 0,
+  minCallOutMinutes: 0,
+  roundingMinutes: 0,
+};
+
+const DEFAULT_SURCHARGE_BUCKETS: SurchargeBucket[] = [
+  { id: 'nacht', name: 'Nacht', days: 'all', from: '20:00', to: '06:00', rate: 25 },
+  { id: 'sonntag', name: 'Sonntag', days: 'sunday', from: '00:00', to: '00:00', rate: 50 },
+  { id: 'feiertag', name: 'Feiertag', days: 'holiday', from: '00:00', to: '00:00', rate: 125 },
+];
+
+const SURCHARGE_DAY_LABELS: Record<SurchargeDays, string> = {
+  all: 'Alle Tage',
+  saturday: 'Samstag',
+  sunday: 'Sonntag',
+  holiday: 'Feiertag',
+};
+
+// ArbZG §4: 30 minutes after more than 6 hours, 45 minutes after more than 9 hours.
+const BREAK_RULES = [
+  { afterMinutes: 9 * 60, breakMinutes: 45 },
+  { afterMinutes: 6 * 60, breakMinutes: 30 },
+];
+const MIN_BREAK_BLOCK_MINUTES = 15;
+// ArbZG §3 and §5: at most 10 hours a day, at least 11 hours of rest between working days.
+const MAX_DAILY_WORK_HOURS = 10;
+const MIN_REST_HOURS = 11;
+const PLAUSIBILITY_CHECK_LABELS: Record<PlausibilityCheck, string> = {
+  overlap: 'Überschneidung',
+  absenceDay: 'Arbeit bei Abwesenheit',
+  longDay: 'Über 10 Stunden',
+  shortRest: 'Ruhezeit unter 11 Stunden',
+  sunday: 'Sonntagsarbeit',
+};
+const OVERTIME_BOOKING_LABELS: Record<OvertimeBooking['kind'], string> = {
+  timeOff: 'Freizeitausgleich',
+  payout: 'Auszahlung',
+};
+
+const AUDIT_ACTION_LABELS: Record<AuditLogEvent['action'], string> = {
+  submit: 'Abgegeben',
+  unlock: 'Entsperrt',
+  reset: 'Daten zurückgesetzt',
+};
+
+const HISTORY_LIMIT = 50;
+const HISTORY_MERGE_MS = 1000; // Keystrokes in the name or overtime field within this gap form one step
+const UNDO_TOAST_MS = 6000;
+
+// Version of the JSON files written by Monat speichern and Sicherung. Files without a
+// version are format 1, whose entries only had the location text.
+const EXPORT_FORMAT_VERSION = 2;
+const ENTRY_FIELDS = ['id', 'date', 'kind', 'absenceTypeId', 'location', 'startTime', 'endTime', 'isChildSick', 'isHalfDay', 'rangeId', 'deployments'];
+const DEPLOYMENT_FIELDS = ['id', 'location', 'startTime', 'endTime'];
+const ENTRY_KINDS: EntryKind[] = ['work', 'pause', 'onCall', 'absence'];
+const MINUTES_PER_DAY = 24 * 60;
+
+
 // --- UTILITY FUNCTIONS ---
+const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const minutesToTime = (totalMinutes: number): string => {
+  const normalized = ((totalMinutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hours = Math.floor(normalized / 60).toString().padStart(2, '0');
+  const minutes = (normalized % 60).toString().padStart(2, '0');
+  return `${hours}:${minutes}`;
+};
+
+// An end time before the start time means the interval ends on the following day.
+const isOvernight = (start: string, end: string): boolean => {
+  return !!start && !!end && timeToMinutes(end) < timeToMinutes(start);
+};
+
 const calculateHours = (start: string, end: string): number => {
   if (!start || !end) return 0;
-  const startTime = new Date(`1970-01-01T${start}:00`);
-  const endTime = new Date(`1970-01-01T${end}:00`);
-  if (endTime <= startTime) return 0;
-  const diff = endTime.getTime() - startTime.getTime();
-  const hours = diff / (1000 * 60 * 60);
-  return Math.max(0, hours);
+  let diff = timeToMinutes(end) - timeToMinutes(start);
+  if (diff < 0) diff += MINUTES_PER_DAY;
+  return diff / 60;
+};
+
+// Deployment time as credited: rounded up to whole blocks, but at least the minimum per call-out.
+const getCreditedDeploymentMinutes = (minutes: number, settings: OnCallSettings): number => {
+  const rounded = settings.roundingMinutes > 0 ? Math.ceil(minutes / settings.roundingMinutes) * settings.roundingMinutes : minutes;
+  return Math.max(rounded, settings.minCallOutMinutes);
+};
+
+// Hours of a deployment as recorded and as credited under the on-call rules.
+const getDeploymentHours = (deployment: Deployment, settings: OnCallSettings): { actual: number; credited: number } => {
+  const minutes = Math.round(calculateHours(deployment.startTime, deployment.endTime) * 60);
+  return { actual: minutes / 60, credited: getCreditedDeploymentMinutes(minutes, settings) / 60 };
+};
+
+// Splits an interval starting on `date` into one segment per calendar day.
+// Segment bounds are minutes since midnight of the segment's date.
+const splitIntervalByDay = (date: string, start: string, end: string): DaySegment[] => {
+  if (calculateHours(start, end) <= 0) return [];
+  const startMinutes = timeToMinutes(start);
+  const endMinutes = timeToMinutes(end);
+  if (!isOvernight(start, end)) {
+    return [{ date, start: startMinutes, end: endMinutes }];
+  }
+  const segments: DaySegment[] = [{ date, start: startMinutes, end: MINUTES_PER_DAY }];
+  if (endMinutes > 0) {
+    segments.push({ date: addDays(date, 1), start: 0, end: endMinutes });
+  }
+  return segments;
+};
+
+// Work and pauses have start and end times; absences and on-call duty cover the whole day.
+const hasTimes = (kind: EntryKind): boolean => kind === 'work' || kind === 'pause';
+
+const getAbsenceType = (entry: Entry, absenceTypes: AbsenceType[]): AbsenceType | undefined => {
+    return entry.kind === 'absence' ? absenceTypes.find(t => t.id === entry.absenceTypeId) : undefined;
+};
+
+// Absences are shown under the current name of their type, so renaming a type renames its entries.
+const getEntryLabel = (entry: Entry, absenceTypes: AbsenceType[]): string => {
+    return getAbsenceType(entry, absenceTypes)?.name || entry.location;
+};
+
+// Older data only has the location text, which was matched case-insensitively.
+const migrateEntry = (entry: StoredEntry): Entry => {
+    if (entry.kind) return entry as Entry;
+    const location = entry.location.trim().toLowerCase();
+    if (location === 'urlaub' || location === 'krank') return { ...entry, kind: 'absence', absenceTypeId: location };
+    if (location === 'bereitschaft') return { ...entry, kind: 'onCall' };
+    if (location === 'pause') return { ...entry, kind: 'pause' };
+    return { ...entry, kind: 'work' };
+};
+
+// Location stored with entries that have no place of their own.
+const getKindLocation = (kind: EntryKind, absenceType?: AbsenceType): string => {
+    if (kind === 'absence') return absenceType?.name || '';
+    return kind === 'onCall' ? 'Bereitschaft' : 'Pause';
+};
+
+// Value of the entry type selector: the kind, or `absence:<type id>` for absences.
+const getEntryTypeValue = (kind: EntryKind, absenceTypeId?: string): string => {
+    return kind === 'absence' ? `absence:${absenceTypeId}` : kind;
+};
+
+const parseEntryTypeValue = (value: string): { kind: EntryKind; absenceTypeId?: string } => {
+    return value.startsWith('absence:') ? { kind: 'absence', absenceTypeId: value.slice('absence:'.length) } : { kind: value as EntryKind };
+};
+
+// The rules of the entry form; returns the message for the first rule that is broken.
+const validateEntryFields = ({ date, kind, location, startTime, endTime }: Pick<Entry, 'date' | 'kind' | 'location' | 'startTime' | 'endTime'>): string | null => {
+    if (!date || (kind === 'work' && !location.trim())) {
+        return "Datum und Ort/Auftrag sind Pflichtfelder.";
+    }
+    if (hasTimes(kind) && (!startTime || !endTime || calculateHours(startTime, endTime) <= 0)) {
+        return "Bei regulären Einträgen sind eine gültige Start- und Endzeit erforderlich, die eine positive Arbeitszeit ergeben.";
+    }
+    return null;
+};
+
+const getRequiredBreakMinutes = (workMinutes: number): number => {
+  const rule = BREAK_RULES.find(r => workMinutes > r.afterMinutes);
+  return rule ? rule.breakMinutes : 0;
+};
+
+// Computes gross and net working time of one day. Pauses are deducted where they
+// overlap work entries; gaps between work entries count towards the legal break.
+// `dayEntries` may include entries of the previous day that continue past midnight.
+const calculateDayHours = (date: string, dayEntries: Entry[], autoDeductBreaks: boolean): DayHours => {
+  const workIntervals: [number, number][] = [];
+  const pauseIntervals: [number, number][] = [];
+
+  dayEntries.forEach(entry => {
+    if (!hasTimes(entry.kind)) return;
+    splitIntervalByDay(entry.date, entry.startTime, entry.endTime)
+      .filter(segment => segment.date === date)
+      .forEach(segment => {
+        const interval: [number, number] = [segment.start, segment.end];
+        if (entry.kind === 'pause') {
+          pauseIntervals.push(interval);
+        } else {
+          workIntervals.push(interval);
+        }
+      });
+  });
+
+  workIntervals.sort((a, b) => a[0] - b[0]);
+
+  const grossMinutes = workIntervals.reduce((sum, [start, end]) => sum + (end - start), 0);
+  const pauseMinutes = pauseIntervals.reduce((sum, [pauseStart, pauseEnd]) => {
+    return sum + workIntervals.reduce((overlap, [start, end]) => {
+      return overlap + Math.max(0, Math.min(end, pauseEnd) - Math.max(start, pauseStart));
+    }, 0);
+  }, 0);
+
+  let gapMinutes = 0;
+  let latestEnd = workIntervals.length > 0 ? workIntervals[0][1] : 0;
+  workIntervals.slice(1).forEach(([start, end]) => {
+    const gap = start - latestEnd;
+    if (gap >= MIN_BREAK_BLOCK_MINUTES) {
+      gapMinutes += gap;
+    }
+    latestEnd = Math.max(latestEnd, end);
+  });
+
+  let netMinutes = grossMinutes - pauseMinutes;
+  let breakMinutes = pauseMinutes + gapMinutes;
+  let autoDeductedMinutes = 0;
+
+  if (autoDeductBreaks) {
+    // Deduct only as much as needed: the deduction never pushes the working time
+    // below the threshold that triggered the requirement in the first place.
+    for (;;) {
+      const required = getRequiredBreakMinutes(netMinutes);
+      const shortfall = required - breakMinutes;
+      if (shortfall <= 0) break;
+      const threshold = BREAK_RULES.find(r => r.breakMinutes === required)!.afterMinutes;
+      const deduction = Math.min(shortfall, netMinutes - threshold);
+      netMinutes -= deduction;
+      breakMinutes += deduction;
+      autoDeductedMinutes += deduction;
+    }
+  }
+
+  return {
+    gross: grossMinutes / 60,
+    pause: pauseMinutes / 60,
+    net: netMinutes / 60,
+    breakMinutes,
+    requiredBreakMinutes: getRequiredBreakMinutes(netMinutes),
+    autoDeductedMinutes,
+  };
 };
 
 const formatHours = (hours: number): string => {
@@ -68,6 +585,265 @@ const formatDate = (dateString: string): string => {
     }).format(date);
 }
 
+const parseISODate = (dateString: string): Date => {
+    const [year, month, day] = dateString.split('-').map(Number);
+    return new Date(year, month - 1, day);
+};
+
+const toISODate = (date: Date): string => {
+    const month = (date.getMonth() + 1).toString().padStart(2, '0');
+    const day = date.getDate().toString().padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// ISO 8601 week number: weeks start on Monday, week 1 contains the first Thursday of the year.
+const getISOWeek = (dateString: string): { year: number; week: number } => {
+    const thursday = parseISODate(dateString);
+    thursday.setDate(thursday.getDate() - ((thursday.getDay() + 6) % 7) + 3);
+    const year = thursday.getFullYear();
+    const firstThursday = new Date(year, 0, 4);
+    firstThursday.setDate(firstThursday.getDate() - ((firstThursday.getDay() + 6) % 7) + 3);
+    const week = 1 + Math.round((thursday.getTime() - firstThursday.getTime()) / (7 * 24 * 60 * 60 * 1000));
+    return { year, week };
+};
+
+const formatShortDate = (dateString: string): string => {
+    const [, month, day] = dateString.split('-');
+    return `${day}.${month}.`;
+};
+
+// Returns the YYYY-MM key used to match entry dates of a month.
+const toMonthKey = (date: Date): string => {
+    return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}`;
+};
+
+const addDays = (dateString: string, days: number): string => {
+    const date = parseISODate(dateString);
+    date.setDate(date.getDate() + days);
+    return toISODate(date);
+};
+
+// Returns the model in effect on the given date. Dates before the earliest
+// effective date fall back to the earliest model so old entries still get a target.
+const getWorkTimeModel = (date: string, models: WorkTimeModel[]): WorkTimeModel | undefined => {
+    const sorted = [...models].sort((a, b) => a.validFrom.localeCompare(b.validFrom));
+    let active = sorted[0];
+    for (const model of sorted) {
+        if (model.validFrom <= date) {
+            active = model;
+        }
+    }
+    return active;
+};
+
+const getTargetHours = (date: string, models: WorkTimeModel[]): number => {
+    const model = getWorkTimeModel(date, models);
+    if (!model) return 0;
+    return model.dailyHours[parseISODate(date).getDay()] || 0;
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+// Vacation days per date; several vacation entries on one day count once.
+const getVacationDays = (entries: Entry[], absenceTypes: AbsenceType[]): Map<string, number> => {
+    const days = new Map<string, number>();
+    entries.forEach(entry => {
+        if (getAbsenceType(entry, absenceTypes)?.counter !== 'vacation') return;
+        days.set(entry.date, Math.max(days.get(entry.date) || 0, entry.isHalfDay ? 0.5 : 1));
+    });
+    return days;
+};
+
+// Walks the years from the first recorded entry up to `year`, carrying remaining
+// days forward. Carried-over days are used first and lapse after the expiry date.
+const calculateVacationBalance = (entries: Entry[], absenceTypes: AbsenceType[], settings: VacationSettings, year: number, today: string): VacationBalance => {
+    const vacationDays = getVacationDays(entries, absenceTypes);
+    const firstYear = entries.reduce((min, e) => Math.min(min, parseInt(e.date.slice(0, 4), 10)), year);
+    let carryOver = settings.initialCarryOver;
+
+    for (let y = firstYear; ; y++) {
+        const expiryDate = settings.carryOverExpiry ? `${y}-${settings.carryOverExpiry}` : '';
+        let taken = 0;
+        let planned = 0;
+        let usedBeforeExpiry = 0;
+        for (const [date, days] of vacationDays.entries()) {
+            if (!date.startsWith(`${y}-`)) continue;
+            if (date <= today) taken += days; else planned += days;
+            if (!expiryDate || date <= expiryDate) usedBeforeExpiry += days;
+        }
+
+        const expired = expiryDate && today > expiryDate ? Math.max(0, carryOver - usedBeforeExpiry) : 0;
+        const remaining = settings.annualDays + carryOver - expired - taken - planned;
+
+        if (y >= year) {
+            return { entitlement: settings.annualDays, carryOver, expired, taken, planned, remaining };
+        }
+        carryOver = Math.max(0, remaining);
+    }
+};
+
+// Easter Sunday in the Gregorian calendar (Meeus/Jones/Butcher algorithm).
+const getEasterSunday = (year: number): Date => {
+    const a = year % 19;
+    const b = Math.floor(year / 100);
+    const c = year % 100;
+    const d = Math.floor(b / 4);
+    const e = b % 4;
+    const f = Math.floor((b + 8) / 25);
+    const g = Math.floor((b - f + 1) / 3);
+    const h = (19 * a + b - d - g + 15) % 30;
+    const i = Math.floor(c / 4);
+    const k = c % 4;
+    const l = (32 + 2 * e + 2 * i - h - k) % 7;
+    const m = Math.floor((a + 11 * h + 22 * l) / 451);
+    const month = Math.floor((h + l - 7 * m + 114) / 31);
+    const day = ((h + l - 7 * m + 114) % 31) + 1;
+    return new Date(year, month - 1, day);
+};
+
+const holidayCache = new Map<string, Map<string, string>>();
+
+// Public holidays keyed by YYYY-MM-DD: the nationwide ones plus those of the given
+// federal state. Holidays only observed in parts of a state are not included.
+const getPublicHolidays = (year: number, federalState = ''): Map<string, string> => {
+    const cacheKey = `${year}-${federalState}`;
+    const cached = holidayCache.get(cacheKey);
+    if (cached) return cached;
+
+    const easter = toISODate(getEasterSunday(year));
+    const inState = (...codes: string[]) => codes.includes(federalState);
+    const holidays = new Map<string, string>([
+        [`${year}-01-01`, 'Neujahr'],
+        [addDays(easter, -2), 'Karfreitag'],
+        [addDays(easter, 1), 'Ostermontag'],
+        [`${year}-05-01`, 'Tag der Arbeit'],
+        [addDays(easter, 39), 'Christi Himmelfahrt'],
+        [addDays(easter, 50), 'Pfingstmontag'],
+        [`${year}-10-03`, 'Tag der Deutschen Einheit'],
+        [`${year}-12-25`, '1. Weihnachtstag'],
+        [`${year}-12-26`, '2. Weihnachtstag'],
+    ]);
+
+    if (inState('BW', 'BY', 'ST')) holidays.set(`${year}-01-06`, 'Heilige Drei Könige');
+    if ((inState('BE') && year >= 2019) || (inState('MV') && year >= 2023)) holidays.set(`${year}-03-08`, 'Internationaler Frauentag');
+    if (inState('BB')) {
+        holidays.set(easter, 'Ostersonntag');
+        holidays.set(addDays(easter, 49), 'Pfingstsonntag');
+    }
+    if (inState('BW', 'BY', 'HE', 'NW', 'RP', 'SL')) holidays.set(addDays(easter, 60), 'Fronleichnam');
+    if (inState('SL')) holidays.set(`${year}-08-15`, 'Mariä Himmelfahrt');
+    if (inState('TH') && year >= 2019) holidays.set(`${year}-09-20`, 'Weltkindertag');
+    if (year === 2017 || inState('BB', 'MV', 'SN', 'ST', 'TH') || (inState('HB', 'HH', 'NI', 'SH') && year >= 2018)) {
+        holidays.set(`${year}-10-31`, 'Reformationstag');
+    }
+    if (inState('BW', 'BY', 'NW', 'RP', 'SL')) holidays.set(`${year}-11-01`, 'Allerheiligen');
+    if (inState('SN')) {
+        // The Wednesday before 23 November.
+        const nov22 = `${year}-11-22`;
+        holidays.set(addDays(nov22, -((parseISODate(nov22).getDay() + 4) % 7)), 'Buß- und Bettag');
+    }
+
+    holidayCache.set(cacheKey, holidays);
+    return holidays;
+};
+
+const getHolidayName = (date: string, federalState = ''): string | undefined => {
+    return getPublicHolidays(parseInt(date.slice(0, 4), 10), federalState).get(date);
+};
+
+// Working days in a range: days with a target in the work-time model that are no public holiday.
+const getWorkingDays = (from: string, to: string, settings: WorkTimeSettings): string[] => {
+    const days: string[] = [];
+    for (let day = from; day <= to; day = addDays(day, 1)) {
+        if (getTargetHours(day, settings.models) > 0 && !getHolidayName(day, settings.federalState)) {
+            days.push(day);
+        }
+    }
+    return days;
+};
+
+// Holidays without entries are listed between the regular entries in date order. On-call
+// entries are sorted last, so the remaining holidays go right before the first of them.
+// Called for each entry index and once with entries.length for the end of the week.
+const getHolidaysBefore = (week: ReportWeek, index: number): PublicHoliday[] => {
+    const isRegular = (entry?: Entry) => !!entry && entry.kind !== 'onCall';
+    const previous = week.entries[index - 1];
+    if (index > 0 && !isRegular(previous)) return [];
+
+    const after = previous ? previous.date : '';
+    const entry = week.entries[index];
+    return week.holidays.filter(h => h.date > after && (!isRegular(entry) || h.date < entry.date));
+};
+
+const getTimeOfDay = (date: Date): string => minutesToTime(date.getHours() * 60 + date.getMinutes());
+
+const formatDateTime = (isoString: string): string => {
+    const date = new Date(isoString);
+    return `${formatDate(toISODate(date))} ${getTimeOfDay(date)}`;
+};
+
+const describeOvertimeBooking = (booking: OvertimeBooking): string => {
+    const label = OVERTIME_BOOKING_LABELS[booking.kind];
+    return booking.note ? `${label}: ${booking.note}` : label;
+};
+
+const describeMonthTotals = (totals: MonthTotals): string => {
+    return `Arbeitsstunden ${totals.monthWorkHours.toFixed(2)} Std. · Überstunden Monat ${formatHours(totals.monthOvertime)} Std. · Überstunden Gesamt ${formatHours(totals.totalOvertime)} Std.`;
+};
+
+const describeAuditLogEvent = (event: AuditLogEvent): string => {
+    return `${formatDateTime(event.at)} – ${AUDIT_ACTION_LABELS[event.action]}${event.reason ? `: ${event.reason}` : ''}`;
+};
+
+// A reset affects every month; it is recorded in the month it happened in.
+const createResetEvent = (reason: string): AuditLogEvent => {
+    const now = new Date();
+    return { month: toISODate(now).slice(0, 7), action: 'reset', at: now.toISOString(), reason };
+};
+
+// Elapsed time as H:MM:SS for the running stopwatch.
+const formatElapsed = (milliseconds: number): string => {
+    const totalSeconds = Math.max(0, Math.floor(milliseconds / 1000));
+    const minutes = Math.floor(totalSeconds / 60) % 60;
+    const seconds = totalSeconds % 60;
+    return `${Math.floor(totalSeconds / 3600)}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+};
+
+// Books a timed interval recorded by the stopwatch; intervals shorter than a minute are dropped.
+const createIntervalEntry = (id: string, kind: 'work' | 'pause', location: string, start: Date, end: Date): Entry[] => {
+    const startTime = getTimeOfDay(start);
+    const endTime = getTimeOfDay(end);
+    return startTime === endTime ? [] : [{ id, date: toISODate(start), kind, location, startTime, endTime }];
+};
+
+// Turns a running timer into entries ending at `now`: the work interval and, while a
+// pause is running, the pause interval.
+const closeRunningTimer = (timer: RunningTimer, now: Date): Entry[] => {
+    const idBase = now.getTime().toString();
+    const workEntries = createIntervalEntry(idBase, 'work', timer.location, new Date(timer.startedAt), now);
+    if (timer.pauseStartedAt === undefined) return workEntries;
+    return [...workEntries, ...createIntervalEntry(`${idBase}-pause`, 'pause', getKindLocation('pause'), new Date(timer.pauseStartedAt), now)];
+};
+
+const formatCurrency = (amount: number): string => {
+    return new Intl.NumberFormat('de-DE', { style: 'currency', currency: 'EUR' }).format(amount);
+};
+
+const formatDays = (days: number): string => {
+    return new Intl.NumberFormat('de-DE', { maximumFractionDigits: 1 }).format(days);
+};
+
+const createSavedLocation = (name: string): SavedLocation => ({ name, customerNumber: '', address: '', costCentre: '' });
+
 const transformTimeShorthand = (time: string): string => {
     if (!time || !time.includes(':')) return time;
 
@@ -89,228 +865,3446 @@ const transformTimeShorthand = (time: string): string => {
     return `${formattedHours}:${formattedMinutes}`;
 };
 
-// --- CONFIRM MODAL COMPONENT ---
-interface ConfirmModalProps {
-  title: string;
-  message: string;
-  onConfirm: () => void;
-  onCancel: () => void;
-  confirmText?: string;
-  cancelText?: string;
-  confirmVariant?: 'danger' | 'primary';
-}
+// --- PERSISTENCE ---
+const DB_NAME = 'wochenzettel';
+const ENTRY_STORE = 'entries'; // Replaced by PROFILE_ENTRY_STORE in version 2
+const PROFILE_ENTRY_STORE = 'profileEntries';
+const PROFILE_INDEX = 'profileId';
+const SETTINGS_STORE = 'settings';
+const DEFAULT_PROFILE_ID = 'default';
+const NEW_PROFILE_OPTION = 'new'; // Value of the switcher option that adds a profile
+const ALL_LOCATIONS_OPTION = ''; // Value of the location report filter that shows every location
 
-const ConfirmModal = ({ title, message, onConfirm, onCancel, confirmText = 'Bestätigen', cancelText = 'Abbrechen', confirmVariant = 'primary' }: ConfirmModalProps) => {
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === 'Escape') {
-        onCancel();
-      }
+// Settings shared by all profiles. All other keys are stored as `<profile id>:<key>`.
+const GLOBAL_SETTING_KEYS = ['profiles', 'activeProfileId', 'exportColumns'];
+
+const getSettingKey = (profileId: string, key: string): string => {
+    return GLOBAL_SETTING_KEYS.includes(key) ? key : `${profileId}:${key}`;
+};
+
+// Keys used before the data moved to IndexedDB.
+const LEGACY_STORAGE_KEYS = ['timesheetEntries', 'employeeName', 'savedLocations', 'baseOvertime', 'workTimeSettings', 'vacationSettings', 'absenceTypes', 'runningTimer'];
+
+const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const transactionToPromise = (transaction: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error || new Error('Die Transaktion wurde abgebrochen.'));
+    });
+};
+
+// Reads the data the app kept in localStorage. Unreadable keys are skipped.
+const readLegacyStorage = (): { entries: Entry[]; settings: Partial<PersistedSettings> } => {
+    const read = <T,>(key: string, parse: (value: string) => T): T | undefined => {
+        try {
+            const value = localStorage.getItem(key);
+            return value === null ? undefined : parse(value);
+        } catch (error) {
+            console.error(`Error reading ${key} from localStorage`, error);
+            return undefined;
+        }
     };
-    window.addEventListener('keydown', handleKeyDown);
-    return () => {
-      window.removeEventListener('keydown', handleKeyDown);
+
+    const settings: Partial<PersistedSettings> = {
+        employeeName: read('employeeName', value => value),
+        savedLocations: read('savedLocations', JSON.parse),
+        baseOvertime: read('baseOvertime', parseFloat),
+        workTimeSettings: read('workTimeSettings', JSON.parse),
+        vacationSettings: read('vacationSettings', JSON.parse),
+        absenceTypes: read('absenceTypes', JSON.parse),
+        runningTimer: read('runningTimer', JSON.parse),
     };
-  }, [onCancel]);
-  
-  return (
-    <div className="modal-overlay" onClick={onCancel}>
+    const entries = read('timesheetEntries', value => (JSON.parse(value) as StoredEntry[]).map(migrateEntry)) || [];
+    return { entries, settings };
+};
+
+// Each migration upgrades the database by one version. They run in order when the
+// database is opened, so a new migration is only ever appended to this list.
+const DB_MIGRATIONS: ((db: IDBDatabase, transaction: IDBTransaction) => void)[] = [
+    // 1: Stores for entries and settings, plus a one-time import from localStorage.
+    (db, transaction) => {
+        db.createObjectStore(ENTRY_STORE, { keyPath: 'id' });
+        db.createObjectStore(SETTINGS_STORE);
+
+        const { entries, settings } = readLegacyStorage();
+        const entryStore = transaction.objectStore(ENTRY_STORE);
+        entries.forEach(entry => entryStore.put(entry));
+        const settingsStore = transaction.objectStore(SETTINGS_STORE);
+        Object.entries(settings).forEach(([key, value]) => {
+            if (value !== undefined) settingsStore.put(value, key);
+        });
+        transaction.addEventListener('complete', () => {
+            LEGACY_STORAGE_KEYS.forEach(key => localStorage.removeItem(key));
+        });
+    },
+    // 2: Profiles. Entries are keyed by profile and id, so an imported file can't overwrite
+    // another profile's entries. The existing data becomes the first profile.
+    (db, transaction) => {
+        const profileEntryStore = db.createObjectStore(PROFILE_ENTRY_STORE, { keyPath: ['profileId', 'id'] });
+        profileEntryStore.createIndex(PROFILE_INDEX, 'profileId');
+        const entriesRequest = transaction.objectStore(ENTRY_STORE).getAll();
+        entriesRequest.onsuccess = () => {
+            (entriesRequest.result as Entry[]).forEach(entry => profileEntryStore.put({ ...entry, profileId: DEFAULT_PROFILE_ID }));
+            db.deleteObjectStore(ENTRY_STORE);
+        };
+
+        // All keys are read before any is written, as a cursor would also visit the
+        // prefixed keys written while it runs.
+        const settingsStore = transaction.objectStore(SETTINGS_STORE);
+        const keysRequest = settingsStore.getAllKeys();
+        const valuesRequest = settingsStore.getAll();
+        valuesRequest.onsuccess = () => {
+            let employeeName = '';
+            keysRequest.result.forEach((storedKey, index) => {
+                const key = String(storedKey);
+                if (GLOBAL_SETTING_KEYS.includes(key)) return;
+                const value = valuesRequest.result[index];
+                if (key === 'employeeName') employeeName = value;
+                settingsStore.put(value, getSettingKey(DEFAULT_PROFILE_ID, key));
+                settingsStore.delete(key);
+            });
+            settingsStore.put([{ id: DEFAULT_PROFILE_ID, name: employeeName }], 'profiles');
+            settingsStore.put(DEFAULT_PROFILE_ID, 'activeProfileId');
+        };
+    },
+];
+const DB_VERSION = DB_MIGRATIONS.length;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    return new Promise((resolve, reject) => {
+        if (!window.indexedDB) {
+            reject(new Error('Ihr Browser unterstützt IndexedDB nicht.'));
+            return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = event => {
+            const transaction = request.transaction as IDBTransaction;
+            for (let version = event.oldVersion; version < DB_VERSION; version++) {
+                DB_MIGRATIONS[version](request.result, transaction);
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new Error('Die Datenbank wird in einem anderen Tab noch in einer älteren Version verwendet. Bitte andere Tabs schließen.'));
+    });
+};
+
+// Loads the shared settings and the data of one profile, by default the last active one.
+const loadPersistedData = async (db: IDBDatabase, requestedProfileId?: string): Promise<{ profileId: string; entries: Entry[]; settings: Partial<PersistedSettings> }> => {
+    const settingsStore = db.transaction(SETTINGS_STORE, 'readonly').objectStore(SETTINGS_STORE);
+    const [keys, values] = await Promise.all([
+        requestToPromise(settingsStore.getAllKeys()),
+        requestToPromise(settingsStore.getAll()),
+    ]);
+    const storedSettings = new Map(keys.map((key, index) => [String(key), values[index]]));
+    const profileId: string = requestedProfileId ?? storedSettings.get('activeProfileId') ?? DEFAULT_PROFILE_ID;
+    const prefix = `${profileId}:`;
+    const settings: Record<string, unknown> = {};
+    for (const [key, value] of storedSettings.entries()) {
+        if (GLOBAL_SETTING_KEYS.includes(key)) settings[key] = value;
+        else if (key.startsWith(prefix)) settings[key.slice(prefix.length)] = value;
+    }
+
+    const entryIndex = db.transaction(PROFILE_ENTRY_STORE, 'readonly').objectStore(PROFILE_ENTRY_STORE).index(PROFILE_INDEX);
+    const storedEntries = await requestToPromise(entryIndex.getAll(profileId) as IDBRequest<(Entry & { profileId: string })[]>);
+    const entries = storedEntries.map(({ profileId: _profileId, ...entry }) => entry);
+    return { profileId, entries, settings: settings as Partial<PersistedSettings> };
+};
+
+const writePersistedChanges = (db: IDBDatabase, profileId: string, changes: PersistedChanges): Promise<void> => {
+    const transaction = db.transaction([PROFILE_ENTRY_STORE, SETTINGS_STORE], 'readwrite');
+    const entryStore = transaction.objectStore(PROFILE_ENTRY_STORE);
+    const settingsStore = transaction.objectStore(SETTINGS_STORE);
+    if (changes.replaceAll) {
+        // Only this profile's entries are replaced; all settings keys are written anyway.
+        const currentIds = new Set(changes.putEntries.map(e => e.id));
+        const keysRequest = entryStore.index(PROFILE_INDEX).getAllKeys(profileId);
+        keysRequest.onsuccess = () => {
+            keysRequest.result.forEach(key => {
+                if (!currentIds.has((key as [string, string])[1])) entryStore.delete(key);
+            });
+        };
+    }
+    changes.deleteEntryIds.forEach(id => entryStore.delete([profileId, id]));
+    changes.putEntries.forEach(entry => entryStore.put({ ...entry, profileId }));
+    Object.entries(changes.settings).forEach(([key, value]) => settingsStore.put(value, getSettingKey(profileId, key)));
+    return transactionToPromise(transaction);
+};
+
+const deleteProfileData = (db: IDBDatabase, profileId: string): Promise<void> => {
+    const transaction = db.transaction([PROFILE_ENTRY_STORE, SETTINGS_STORE], 'readwrite');
+    const entryStore = transaction.objectStore(PROFILE_ENTRY_STORE);
+    entryStore.delete(IDBKeyRange.bound([profileId], [profileId, []]));
+    transaction.objectStore(SETTINGS_STORE).delete(IDBKeyRange.bound(`${profileId}:`, `${profileId}:\uffff`));
+    return transactionToPromise(transaction);
+};
+
+const describeStorageError = (error: unknown): string => {
+    if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+        return 'Der Speicherplatz des Browsers ist voll.';
+    }
+    return error instanceof Error ? error.message : 'Unbekannter Fehler.';
+};
+
+
+// --- JSON IMPORT ---
+const isValidISODate = (value: unknown): value is string => {
+    return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && toISODate(parseISODate(value)) === value;
+};
+
+const isValidTime = (value: unknown): value is string => {
+    return typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+};
+
+const getUnknownFields = (record: Record<string, unknown>, knownFields: string[]): string[] => {
+    return Object.keys(record).filter(key => !knownFields.includes(key));
+};
+
+const validateDeployment = (raw: unknown): string[] => {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return ['kein gültiger Einsatz.'];
+    const record = raw as Record<string, unknown>;
+    const errors: string[] = [];
+    const unknownFields = getUnknownFields(record, DEPLOYMENT_FIELDS);
+    if (unknownFields.length > 0) errors.push(`unbekannte Felder ${unknownFields.join(', ')}.`);
+    if (typeof record.id !== 'string' || !record.id) errors.push('ID fehlt.');
+    if (typeof record.location !== 'string' || !record.location.trim()) errors.push('Ort fehlt.');
+    if (!isValidTime(record.startTime) || !isValidTime(record.endTime)) {
+        errors.push('Start- oder Endzeit fehlt oder ist ungültig.');
+    } else if (calculateHours(record.startTime, record.endTime) <= 0) {
+        errors.push('die Einsatzzeit ist nicht positiv.');
+    }
+    return errors;
+};
+
+const isValidOvertimeBooking = (value: unknown): value is OvertimeBooking => {
+    const booking = value as OvertimeBooking;
+    return typeof booking === 'object' && booking !== null && typeof booking.id === 'string' && isValidISODate(booking.date)
+        && (booking.kind === 'timeOff' || booking.kind === 'payout') && typeof booking.hours === 'number' && booking.hours > 0
+        && typeof booking.note === 'string';
+};
+
+const isValidSurchargeBucket = (value: unknown): value is SurchargeBucket => {
+    const bucket = value as SurchargeBucket;
+    return typeof bucket === 'object' && bucket !== null && typeof bucket.id === 'string' && typeof bucket.name === 'string'
+        && bucket.days in SURCHARGE_DAY_LABELS && isValidTime(bucket.from) && isValidTime(bucket.to) && typeof bucket.rate === 'number';
+};
+
+const isValidSavedLocation = (value: unknown): value is SavedLocation => {
+    const location = value as SavedLocation;
+    return typeof location === 'object' && location !== null && typeof location.name === 'string' && location.name.trim() !== ''
+        && typeof location.customerNumber === 'string' && typeof location.address === 'string' && typeof location.costCentre === 'string'
+        && (location.hourlyRate === undefined || (typeof location.hourlyRate === 'number' && location.hourlyRate >= 0));
+};
+
+const isValidMonthLock = (value: unknown): value is MonthLock => {
+    const lock = value as MonthLock;
+    return typeof lock === 'object' && lock !== null && typeof lock.month === 'string' && /^\d{4}-\d{2}$/.test(lock.month)
+        && typeof lock.submittedAt === 'string' && typeof lock.totals === 'object' && lock.totals !== null;
+};
+
+const isValidAuditLogEvent = (value: unknown): value is AuditLogEvent => {
+    const event = value as AuditLogEvent;
+    return typeof event === 'object' && event !== null && typeof event.month === 'string' && typeof event.at === 'string'
+        && (event.action === 'submit' || event.action === 'unlock' || event.action === 'reset') && (event.reason === undefined || typeof event.reason === 'string');
+};
+
+// Checks one entry of an imported file. Entries of older files are migrated first,
+// then the same rules apply as for entries typed into the form.
+const validateImportedEntry = (raw: unknown, absenceTypes: AbsenceType[]): { entry?: Entry; errors: string[] } => {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+        return { errors: ['Kein gültiger Eintrag.'] };
+    }
+    const record = raw as Record<string, unknown>;
+    const errors: string[] = [];
+    const unknownFields = getUnknownFields(record, ENTRY_FIELDS);
+    if (unknownFields.length > 0) errors.push(`Unbekannte Felder: ${unknownFields.join(', ')}.`);
+    if (typeof record.id !== 'string' || !record.id) errors.push('ID fehlt.');
+    if (!isValidISODate(record.date)) errors.push(`Ungültiges Datum: „${String(record.date ?? '')}“.`);
+    if (typeof record.location !== 'string') errors.push('Ort / Auftrag fehlt.');
+    if (record.kind !== undefined && !ENTRY_KINDS.includes(record.kind as EntryKind)) errors.push(`Unbekannte Art: „${String(record.kind)}“.`);
+    if (errors.length > 0) return { errors };
+
+    const entry = migrateEntry(record as unknown as StoredEntry);
+    if (entry.kind === 'work' && !entry.location.trim()) errors.push('Ort / Auftrag fehlt.');
+    if (hasTimes(entry.kind)) {
+        if (!isValidTime(entry.startTime) || !isValidTime(entry.endTime)) {
+            errors.push('Start- oder Endzeit fehlt oder ist ungültig.');
+        } else if (calculateHours(entry.startTime, entry.endTime) <= 0) {
+            errors.push('Start- und Endzeit ergeben keine positive Arbeitszeit.');
+        }
+    }
+    if (entry.kind === 'absence' && !absenceTypes.some(t => t.id === entry.absenceTypeId)) {
+        errors.push(`Unbekannte Abwesenheitsart: „${entry.absenceTypeId ?? ''}“.`);
+    }
+    (['isChildSick', 'isHalfDay'] as const).forEach(field => {
+        if (record[field] !== undefined && typeof record[field] !== 'boolean') errors.push(`${field} muss true oder false sein.`);
+    });
+    if (record.rangeId !== undefined && typeof record.rangeId !== 'string') errors.push('rangeId muss ein Text sein.');
+    if (record.deployments !== undefined) {
+        if (!Array.isArray(record.deployments)) {
+            errors.push('Einsätze müssen eine Liste sein.');
+        } else {
+            record.deployments.forEach((deployment, index) => {
+                validateDeployment(deployment).forEach(error => errors.push(`Einsatz ${index + 1}: ${error}`));
+            });
+        }
+    }
+    if (errors.length > 0) return { errors };
+
+    return { entry: hasTimes(entry.kind) ? entry : { ...entry, startTime: '', endTime: '' }, errors };
+};
+
+// Reads an exported file. Problems with the file as a whole throw, invalid entries
+// are collected as issues so the valid ones can still be imported.
+const parseImportFile = (data: unknown, fileName: string): ImportData => {
+    if (typeof data !== 'object' || data === null || !Array.isArray((data as { entries?: unknown }).entries)) {
+        throw new Error("Ungültiges Dateiformat. Die Datei muss ein 'entries'-Array enthalten.");
+    }
+    const file = data as Record<string, unknown> & { entries: unknown[] };
+    const version = file.version ?? 1;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+        throw new Error('Ungültige Formatversion.');
+    }
+    if (version > EXPORT_FORMAT_VERSION) {
+        throw new Error(`Die Datei wurde mit einer neueren Version erstellt (Format ${version}) und kann nicht gelesen werden.`);
+    }
+
+    const fileAbsenceTypes = Array.isArray(file.absenceTypes) ? file.absenceTypes as AbsenceType[] : undefined;
+    // Entries may only use the file's own absence types: replacing drops the current ones,
+    // and merging adds those of the file that its entries use.
+    const knownAbsenceTypes = fileAbsenceTypes || DEFAULT_ABSENCE_TYPES;
+    const entries: Entry[] = [];
+    const issues: ImportIssue[] = [];
+    const seenIds = new Set<string>();
+
+    file.entries.forEach((raw, index) => {
+        const { entry, errors } = validateImportedEntry(raw, knownAbsenceTypes);
+        if (entry && seenIds.has(entry.id)) errors.push(`Die ID „${entry.id}“ kommt in der Datei mehrfach vor.`);
+        if (entry && errors.length === 0) {
+            seenIds.add(entry.id);
+            entries.push(entry);
+            return;
+        }
+        const record = (typeof raw === 'object' && raw !== null ? raw : {}) as Record<string, unknown>;
+        const label = [isValidISODate(record.date) ? formatDate(record.date) : '', typeof record.location === 'string' ? record.location : '']
+            .filter(Boolean).join(' ');
+        issues.push({ index, label, errors });
+    });
+
+    return {
+        fileName,
+        version,
+        entries,
+        issues,
+        reportMonth: typeof file.reportMonth === 'string' && /^\d{4}-\d{2}$/.test(file.reportMonth) ? file.reportMonth : undefined,
+        employeeName: typeof file.employeeName === 'string' ? file.employeeName : undefined,
+        // Files written before location details existed hold the names only.
+        savedLocations: Array.isArray(file.savedLocations)
+            ? file.savedLocations.map(l => (typeof l === 'string' ? createSavedLocation(l) : l)).filter(isValidSavedLocation)
+            : undefined,
+        baseOvertime: typeof file.baseOvertime === 'number' ? file.baseOvertime : undefined,
+        workTimeSettings: file.workTimeSettings && Array.isArray((file.workTimeSettings as WorkTimeSettings).models) ? file.workTimeSettings as WorkTimeSettings : undefined,
+        vacationSettings: file.vacationSettings && typeof (file.vacationSettings as VacationSettings).annualDays === 'number' ? file.vacationSettings as VacationSettings : undefined,
+        onCallSettings: file.onCallSettings && typeof (file.onCallSettings as OnCallSettings).weekdayAllowance === 'number' ? file.onCallSettings as OnCallSettings : undefined,
+        surchargeBuckets: Array.isArray(file.surchargeBuckets) ? file.surchargeBuckets.filter(isValidSurchargeBucket) : undefined,
+        absenceTypes: fileAbsenceTypes,
+        overtimeBookings: Array.isArray(file.overtimeBookings) ? file.overtimeBookings.filter(isValidOvertimeBooking) : undefined,
+        monthLocks: Array.isArray(file.monthLocks) ? file.monthLocks.filter(isValidMonthLock) : undefined,
+        auditLog: Array.isArray(file.auditLog) ? file.auditLog.filter(isValidAuditLogEvent) : undefined,
+    };
+};
+
+const serializeEntry = (entry: Entry): string => {
+    return JSON.stringify(ENTRY_FIELDS.map(field => entry[field as keyof Entry] ?? null));
+};
+
+// Entries recorded twice, e.g. on two devices, have different ids but the same content.
+const getEntrySignature = (entry: Entry): string => {
+    return JSON.stringify([entry.date, entry.kind, entry.absenceTypeId ?? '', entry.location.trim().toLowerCase(), entry.startTime, entry.endTime]);
+};
+
+const planMerge = (current: Entry[], imported: Entry[]): MergePlan => {
+    const currentById = new Map(current.map(e => [e.id, e]));
+    const signatures = new Set(current.map(getEntrySignature));
+    const plan: MergePlan = { added: [], duplicates: [], conflicts: [] };
+
+    imported.forEach(entry => {
+        const existing = currentById.get(entry.id);
+        if (existing) {
+            if (serializeEntry(existing) === serializeEntry(entry)) {
+                plan.duplicates.push(entry);
+            } else {
+                plan.conflicts.push({ current: existing, imported: entry });
+            }
+        } else if (signatures.has(getEntrySignature(entry))) {
+            plan.duplicates.push(entry);
+        } else {
+            plan.added.push(entry);
+            signatures.add(getEntrySignature(entry));
+        }
+    });
+    return plan;
+};
+
+const describeEntry = (entry: Entry, absenceTypes: AbsenceType[]): string => {
+    const label = getEntryLabel(entry, absenceTypes);
+    return hasTimes(entry.kind) ? `${label}, ${entry.startTime}–${entry.endTime}` : label;
+};
+
+
+// --- CSV IMPORT ---
+type CsvField = 'date' | 'startTime' | 'endTime' | 'location' | 'type';
+type CsvDateFormat = 'DD.MM.YYYY' | 'DD.MM.YY' | 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY';
+type CsvTimeFormat = 'HH:MM' | 'h:mm AM/PM' | 'decimal';
+
+interface CsvMapping {
+  hasHeader: boolean;
+  columns: Record<CsvField, number>; // Column index, -1 if the field is not in the file
+  dateFormat: CsvDateFormat;
+  timeFormat: CsvTimeFormat;
+}
+
+// A converted row; deployments are attached to the on-call entry above them.
+interface CsvImportRow {
+  line: number;
+  entry?: Entry;
+  deployment?: Deployment;
+  errors: string[];
+}
+
+const CSV_FIELDS: { id: CsvField; label: string; keywords: string[] }[] = [
+  { id: 'date', label: 'Datum', keywords: ['datum', 'date', 'day'] },
+  { id: 'startTime', label: 'Beginn', keywords: ['von', 'beginn', 'start', 'kommen', 'from', 'begin'] },
+  { id: 'endTime', label: 'Ende', keywords: ['bis', 'ende', 'end', 'gehen', 'until', 'stop'] },
+  { id: 'location', label: 'Ort / Auftrag', keywords: ['ort', 'auftrag', 'projekt', 'kunde', 'location', 'project', 'client', 'task'] },
+  { id: 'type', label: 'Art', keywords: ['art', 'typ', 'type', 'kind', 'kategorie', 'category'] },
+];
+
+// Patterns capture day, month and year in the order given by `parts`.
+const CSV_DATE_FORMATS: { id: CsvDateFormat; pattern: RegExp; parts: ('day' | 'month' | 'year')[] }[] = [
+  { id: 'DD.MM.YYYY', pattern: /^(\d{1,2})\.(\d{1,2})\.(\d{4})$/, parts: ['day', 'month', 'year'] },
+  { id: 'DD.MM.YY', pattern: /^(\d{1,2})\.(\d{1,2})\.(\d{2})$/, parts: ['day', 'month', 'year'] },
+  { id: 'YYYY-MM-DD', pattern: /^(\d{4})-(\d{1,2})-(\d{1,2})$/, parts: ['year', 'month', 'day'] },
+  { id: 'DD/MM/YYYY', pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/, parts: ['day', 'month', 'year'] },
+  { id: 'MM/DD/YYYY', pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/, parts: ['month', 'day', 'year'] },
+];
+
+const CSV_TIME_FORMATS: { id: CsvTimeFormat; label: string }[] = [
+  { id: 'HH:MM', label: '24 Stunden (08:30)' },
+  { id: 'h:mm AM/PM', label: '12 Stunden (8:30 AM)' },
+  { id: 'decimal', label: 'Dezimal (8,5)' },
+];
+
+const CSV_KIND_NAMES: Record<string, EntryKind> = {
+  arbeit: 'work', arbeitszeit: 'work', work: 'work',
+  pause: 'pause', break: 'pause',
+  bereitschaft: 'onCall', rufbereitschaft: 'onCall', 'on call': 'onCall',
+};
+const CSV_DEPLOYMENT_NAMES = ['einsatz', 'deployment'];
+const CSV_PREVIEW_ROWS = 20;
+
+// Splits the text into rows of cells. The separator is whichever of semicolon, tab
+// or comma occurs most often in the first line; quoted cells may contain all three.
+// The apostrophe our export puts before formula-like text is removed again.
+const parseCSV = (text: string): string[][] => {
+    const content = text.replace(/^\uFEFF/, '');
+    const firstLine = content.split(/\r?\n/, 1)[0];
+    const separator = [';', '\t', ','].reduce((best, candidate) => (firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best));
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (inQuotes) {
+            if (char === '"' && content[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === separator) {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    if (cell || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+    return rows.map(cells => cells.map(c => (/^'[=+\-@\t\r]/.test(c) ? c.slice(1) : c)));
+};
+
+// Returns '' for an empty cell and null if the value doesn't match the format.
+const parseCsvDate = (value: string, format: CsvDateFormat): string | null => {
+    if (!value) return '';
+    const { pattern, parts } = CSV_DATE_FORMATS.find(f => f.id === format)!;
+    const match = value.match(pattern);
+    if (!match) return null;
+    const get = (part: 'day' | 'month' | 'year') => match[parts.indexOf(part) + 1];
+    const year = get('year').length === 2 ? `20${get('year')}` : get('year');
+    const date = `${year}-${get('month').padStart(2, '0')}-${get('day').padStart(2, '0')}`;
+    return isValidISODate(date) ? date : null;
+};
+
+const parseCsvTime = (value: string, format: CsvTimeFormat): string | null => {
+    if (!value) return '';
+    let hours: number;
+    let minutes: number;
+    if (format === 'decimal') {
+        if (!/^\d{1,2}([.,]\d+)?$/.test(value)) return null;
+        const totalMinutes = Math.round(parseFloat(value.replace(',', '.')) * 60);
+        hours = Math.floor(totalMinutes / 60);
+        minutes = totalMinutes % 60;
+    } else if (format === 'h:mm AM/PM') {
+        const match = value.match(/^(\d{1,2})(?::(\d{2}))?\s*([ap])\.?\s?m\.?$/i);
+        if (!match || Number(match[1]) < 1 || Number(match[1]) > 12) return null;
+        hours = (Number(match[1]) % 12) + (match[3].toLowerCase() === 'p' ? 12 : 0);
+        minutes = Number(match[2] || 0);
+    } else {
+        const match = value.match(/^(\d{1,2})[:.](\d{2})(?::\d{2})?$/);
+        if (!match) return null;
+        hours = Number(match[1]);
+        minutes = Number(match[2]);
+    }
+    if (hours === 24 && minutes === 0) hours = 0; // End of day
+    if (hours > 23 || minutes > 59) return null;
+    return minutesToTime(hours * 60 + minutes);
+};
+
+// Known kind names and absence type names, case-insensitive. An empty cell means work.
+const parseCsvType = (value: string, absenceTypes: AbsenceType[]): { kind: EntryKind; absenceTypeId?: string } | 'deployment' | null => {
+    const name = value.trim().toLowerCase();
+    if (!name) return { kind: 'work' };
+    if (CSV_DEPLOYMENT_NAMES.includes(name)) return 'deployment';
+    if (CSV_KIND_NAMES[name]) return { kind: CSV_KIND_NAMES[name] };
+    const absenceType = absenceTypes.find(t => t.name.toLowerCase() === name || t.id === name);
+    return absenceType ? { kind: 'absence', absenceTypeId: absenceType.id } : null;
+};
+
+// Maps each field to the first unused column whose header starts with one of its keywords.
+const guessCsvMapping = (rows: string[][]): CsvMapping => {
+    const headers = (rows[0] || []).map(h => h.trim().toLowerCase());
+    const used = new Set<number>();
+    const columns = {} as Record<CsvField, number>;
+    CSV_FIELDS.forEach(field => {
+        const index = headers.findIndex((header, i) => !used.has(i) && field.keywords.some(k => header.startsWith(k)));
+        columns[field.id] = index;
+        if (index >= 0) used.add(index);
+    });
+    const firstDate = rows[1]?.[columns.date]?.trim() || '';
+    const dateFormat = CSV_DATE_FORMATS.find(f => parseCsvDate(firstDate, f.id))?.id || 'DD.MM.YYYY';
+    return { hasHeader: Object.values(columns).some(i => i >= 0), columns, dateFormat, timeFormat: 'HH:MM' };
+};
+
+// Converts the rows with the checks of the entry form. Rows that fail keep their errors,
+// so they can be shown instead of being dropped.
+const convertCsvRows = (rows: string[][], mapping: CsvMapping, absenceTypes: AbsenceType[], idBase: string): CsvImportRow[] => {
+    const result: CsvImportRow[] = [];
+    let lastOnCall: Entry | undefined;
+    rows.forEach((cells, index) => {
+        if ((mapping.hasHeader && index === 0) || !cells.some(c => c.trim())) return;
+        const getCell = (field: CsvField) => (cells[mapping.columns[field]] ?? '').trim();
+        const line = index + 1;
+        const errors: string[] = [];
+
+        const date = parseCsvDate(getCell('date'), mapping.dateFormat);
+        if (date === null) errors.push(`Ungültiges Datum: „${getCell('date')}“.`);
+        const startTime = parseCsvTime(getCell('startTime'), mapping.timeFormat);
+        if (startTime === null) errors.push(`Ungültige Startzeit: „${getCell('startTime')}“.`);
+        const endTime = parseCsvTime(getCell('endTime'), mapping.timeFormat);
+        if (endTime === null) errors.push(`Ungültige Endzeit: „${getCell('endTime')}“.`);
+        const type = parseCsvType(getCell('type'), absenceTypes);
+        if (type === null) errors.push(`Unbekannte Art: „${getCell('type')}“.`);
+        const location = getCell('location');
+        if (errors.length > 0 || date === null || startTime === null || endTime === null || type === null) {
+            result.push({ line, errors });
+            return;
+        }
+
+        if (type === 'deployment') {
+            if (!lastOnCall || lastOnCall.date !== date) {
+                errors.push("Ein Einsatz braucht eine Bereitschaft am selben Tag in einer Zeile davor.");
+            } else if (!location || !startTime || !endTime || calculateHours(startTime, endTime) <= 0) {
+                errors.push("Bitte für den Einsatz Ort, gültige Start- und Endzeit angeben.");
+            }
+            if (errors.length > 0 || !lastOnCall) {
+                result.push({ line, errors });
+                return;
+            }
+            const deployment = { id: `${idBase}-${index}`, location, startTime, endTime };
+            lastOnCall.deployments = [...(lastOnCall.deployments || []), deployment];
+            result.push({ line, deployment, errors });
+            return;
+        }
+
+        const validationError = validateEntryFields({ date, kind: type.kind, location, startTime, endTime });
+        if (validationError) {
+            result.push({ line, errors: [validationError] });
+            return;
+        }
+        const absenceType = absenceTypes.find(t => t.id === type.absenceTypeId);
+        const entry: Entry = {
+            id: `${idBase}-${index}`,
+            date,
+            kind: type.kind,
+            absenceTypeId: type.absenceTypeId,
+            location: type.kind === 'work' ? location : getKindLocation(type.kind, absenceType),
+            startTime: hasTimes(type.kind) ? startTime : '',
+            endTime: hasTimes(type.kind) ? endTime : '',
+        };
+        lastOnCall = entry.kind === 'onCall' ? entry : lastOnCall;
+        result.push({ line, entry, errors });
+    });
+    return result;
+};
+
+// --- PLAUSIBILITY CHECKS ---
+// Whole days since the epoch, so intervals can be compared across midnight.
+const toDayNumber = (dateString: string): number => {
+    const [year, month, day] = dateString.split('-').map(Number);
+    return Date.UTC(year, month - 1, day) / (24 * 60 * 60 * 1000);
+};
+
+// Checks all entries against each other; the form only checks one entry at a time.
+// Warnings about a whole day carry no ids and are shown with the day total.
+const checkPlausibility = (entries: Entry[], dayBalances: Map<string, DayBalance>, absenceTypes: AbsenceType[]): PlausibilityWarning[] => {
+    const warnings: PlausibilityWarning[] = [];
+    const intervals: { id: string; date: string; isDeployment: boolean; label: string; start: number; end: number }[] = [];
+    entries.forEach(entry => {
+        const addInterval = (id: string, label: string, startTime: string, endTime: string, isDeployment: boolean) => {
+            const start = toDayNumber(entry.date) * MINUTES_PER_DAY + timeToMinutes(startTime);
+            intervals.push({ id, date: entry.date, isDeployment, label: `${label} ${startTime}–${endTime}`, start, end: start + calculateHours(startTime, endTime) * 60 });
+        };
+        if (entry.kind === 'work' && entry.startTime && entry.endTime) {
+            addInterval(entry.id, entry.location, entry.startTime, entry.endTime, false);
+        }
+        if (entry.kind === 'onCall') {
+            (entry.deployments || []).forEach(dep => addInterval(dep.id, `Einsatz ${dep.location}`, dep.startTime, dep.endTime, true));
+        }
+    });
+    intervals.sort((a, b) => a.start - b.start);
+
+    intervals.forEach((interval, index) => {
+        for (let i = index + 1; i < intervals.length && intervals[i].start < interval.end; i++) {
+            warnings.push({
+                check: 'overlap',
+                date: interval.date,
+                ids: [interval.id, intervals[i].id],
+                message: `„${interval.label}“ und „${intervals[i].label}“ überschneiden sich.`,
+            });
+        }
+
+        // Full-day absences take precedence, so the work doesn't count.
+        const balance = dayBalances.get(interval.date);
+        if (balance?.absenceDays === 1) {
+            const absenceName = absenceTypes.find(t => t.id === balance.absenceTypeId)?.name || 'Abwesenheit';
+            warnings.push({
+                check: 'absenceDay',
+                date: interval.date,
+                ids: [interval.id],
+                message: `Arbeit an einem Tag mit ${absenceName} wird nicht als Arbeitszeit gezählt.`,
+            });
+        }
+
+        if (parseISODate(interval.date).getDay() === 0) {
+            warnings.push({ check: 'sunday', date: interval.date, ids: [interval.id], message: 'Arbeit an einem Sonntag.' });
+        }
+    });
+
+    for (const [date, balance] of dayBalances.entries()) {
+        if (balance.workHours > MAX_DAILY_WORK_HOURS) {
+            warnings.push({
+                check: 'longDay',
+                date,
+                ids: [],
+                message: `${balance.workHours.toFixed(2)} Std. Arbeitszeit, mehr als ${MAX_DAILY_WORK_HOURS} Std. am Tag.`,
+            });
+        }
+    }
+
+    // The daily rest runs from the end of one day's regular work to the start of the next
+    // day's. Deployments during on-call duty may shorten it and are not counted here.
+    const workDays = new Map<string, { firstId: string; start: number; end: number }>();
+    intervals.filter(i => !i.isDeployment).forEach(interval => {
+        const day = workDays.get(interval.date);
+        if (!day) {
+            workDays.set(interval.date, { firstId: interval.id, start: interval.start, end: interval.end });
+        } else {
+            day.end = Math.max(day.end, interval.end);
+        }
+    });
+    for (const [date, day] of workDays.entries()) {
+        const nextDate = addDays(date, 1);
+        const nextDay = workDays.get(nextDate);
+        if (!nextDay) continue;
+        const restMinutes = nextDay.start - day.end; // Negative if the days overlap, which is flagged above
+        if (restMinutes >= 0 && restMinutes < MIN_REST_HOURS * 60) {
+            warnings.push({
+                check: 'shortRest',
+                date: nextDate,
+                ids: [nextDay.firstId],
+                message: `Nur ${(restMinutes / 60).toFixed(2)} Std. Ruhezeit seit Arbeitsende am ${formatDate(date)}, mindestens ${MIN_REST_HOURS} Std. vorgeschrieben.`,
+            });
+        }
+    }
+
+    return warnings.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+
+// --- SURCHARGES ---
+// Minute ranges of a day covered by the bucket's time window.
+const getSurchargeWindows = (bucket: SurchargeBucket): [number, number][] => {
+    const from = timeToMinutes(bucket.from);
+    const to = timeToMinutes(bucket.to);
+    if (from === to) return [[0, MINUTES_PER_DAY]];
+    return from < to ? [[from, to]] : [[0, to], [from, MINUTES_PER_DAY]];
+};
+
+const isSurchargeDay = (bucket: SurchargeBucket, date: string, federalState: string): boolean => {
+    const weekday = parseISODate(date).getDay();
+    switch (bucket.days) {
+        case 'saturday': return weekday === 6;
+        case 'sunday': return weekday === 0;
+        case 'holiday': return !!getHolidayName(date, federalState);
+        default: return true;
+    }
+};
+
+const describeSurchargeWindow = (bucket: SurchargeBucket): string => {
+    return bucket.from === bucket.to ? SURCHARGE_DAY_LABELS[bucket.days] : `${SURCHARGE_DAY_LABELS[bucket.days]}, ${bucket.from}–${bucket.to}`;
+};
+
+// Hours per bucket id worked in the month by work entries and deployments, less pauses.
+// Hours belong to the calendar day they fall on, so a night shift into a Sunday
+// counts as Sunday work after midnight.
+const calculateSurchargeHours = (entries: Entry[], buckets: SurchargeBucket[], month: string, federalState = ''): Map<string, number> => {
+    const minutesByBucket = new Map(buckets.map(b => [b.id, 0]));
+    const addInterval = (date: string, start: string, end: string, sign: number) => {
+        splitIntervalByDay(date, start, end).forEach(segment => {
+            if (!segment.date.startsWith(month)) return;
+            buckets.forEach(bucket => {
+                if (!isSurchargeDay(bucket, segment.date, federalState)) return;
+                const minutes = getSurchargeWindows(bucket).reduce((sum, [from, to]) => {
+                    return sum + Math.max(0, Math.min(to, segment.end) - Math.max(from, segment.start));
+                }, 0);
+                minutesByBucket.set(bucket.id, (minutesByBucket.get(bucket.id) || 0) + sign * minutes);
+            });
+        });
+    };
+
+    entries.forEach(entry => {
+        if (entry.kind === 'work') addInterval(entry.date, entry.startTime, entry.endTime, 1);
+        if (entry.kind === 'pause') addInterval(entry.date, entry.startTime, entry.endTime, -1);
+        (entry.deployments || []).forEach(dep => addInterval(entry.date, dep.startTime, dep.endTime, 1));
+    });
+
+    // Pauses outside of any work can't make a bucket negative.
+    return new Map([...minutesByBucket.entries()].map(([id, minutes]) => [id, Math.max(0, minutes) / 60]));
+};
+
+// --- STATISTICS ---
+const MONTH_SHORT_NAMES = ['Jan', 'Feb', 'Mär', 'Apr', 'Mai', 'Jun', 'Jul', 'Aug', 'Sep', 'Okt', 'Nov', 'Dez'];
+const MAX_CHART_LOCATIONS = 8; // Further locations are combined into Sonstige
+
+// Overtime earned in each month of the year and the balance at each month's end,
+// counted like the summary: base overtime, earned overtime and bookings.
+const getOvertimeTrend = (dayBalances: Map<string, DayBalance>, bookings: OvertimeBooking[], baseOvertime: number, year: number): { earned: number[]; balance: number[] } => {
+    const yearPrefix = `${year}-`;
+    const earned: number[] = new Array(12).fill(0);
+    const booked: number[] = new Array(12).fill(0);
+    let opening = baseOvertime;
+    for (const [date, balance] of dayBalances.entries()) {
+        const overtime = balance.workHours - balance.targetHours;
+        if (date < yearPrefix) opening += overtime;
+        else if (date.startsWith(yearPrefix)) earned[Number(date.slice(5, 7)) - 1] += overtime;
+    }
+    bookings.forEach(booking => {
+        if (booking.date < yearPrefix) opening -= booking.hours;
+        else if (booking.date.startsWith(yearPrefix)) booked[Number(booking.date.slice(5, 7)) - 1] -= booking.hours;
+    });
+    let running = opening;
+    return { earned, balance: earned.map((hours, month) => (running += hours + booked[month])) };
+};
+
+// Recorded hours of work entries and deployments by location, largest first.
+// Pauses belong to no location, so these are hours before break deduction.
+const getHoursByLocation = (entries: Entry[], year: number): { label: string; value: number }[] => {
+    const hours = new Map<string, number>();
+    const add = (location: string, value: number) => {
+        const label = location.trim() || 'Ohne Ort';
+        hours.set(label, (hours.get(label) || 0) + value);
+    };
+    entries.forEach(entry => {
+        if (!entry.date.startsWith(`${year}-`)) return;
+        if (entry.kind === 'work') add(entry.location, calculateHours(entry.startTime, entry.endTime));
+        (entry.deployments || []).forEach(dep => add(dep.location, calculateHours(dep.startTime, dep.endTime)));
+    });
+    const sorted = [...hours.entries()].sort((a, b) => b[1] - a[1]).map(([label, value]) => ({ label, value }));
+    if (sorted.length <= MAX_CHART_LOCATIONS) return sorted;
+    const rest = sorted.slice(MAX_CHART_LOCATIONS - 1).reduce((sum, item) => sum + item.value, 0);
+    return [...sorted.slice(0, MAX_CHART_LOCATIONS - 1), { label: 'Sonstige', value: rest }];
+};
+
+// Absence days per weekday, Montag first.
+const getAbsencesByWeekday = (dayBalances: Map<string, DayBalance>, year: number): number[] => {
+    const days: number[] = WEEKDAY_ORDER.map(() => 0);
+    for (const [date, balance] of dayBalances.entries()) {
+        if (!date.startsWith(`${year}-`) || !balance.absenceTypeId) continue;
+        days[WEEKDAY_ORDER.indexOf(parseISODate(date).getDay())] += balance.absenceDays;
+    }
+    return days;
+};
+
+// Average first start and last end of work per weekday (Montag first) and overall,
+// in minutes since midnight. Ends past midnight are above 1440.
+const getAverageWorkTimes = (entries: Entry[], year: number) => {
+    const days = new Map<string, { start: number; end: number }>();
+    entries.forEach(entry => {
+        if (entry.kind !== 'work' || !entry.date.startsWith(`${year}-`)) return;
+        const start = timeToMinutes(entry.startTime);
+        const end = start + calculateHours(entry.startTime, entry.endTime) * 60;
+        const day = days.get(entry.date);
+        days.set(entry.date, day ? { start: Math.min(day.start, start), end: Math.max(day.end, end) } : { start, end });
+    });
+
+    const average = (times: { start: number; end: number }[]) => (times.length === 0 ? null : {
+        start: times.reduce((sum, t) => sum + t.start, 0) / times.length,
+        end: times.reduce((sum, t) => sum + t.end, 0) / times.length,
+    });
+    const byWeekday = WEEKDAY_ORDER.map(weekday => average([...days.entries()]
+        .filter(([date]) => parseISODate(date).getDay() === weekday)
+        .map(([, times]) => times)));
+    return { byWeekday, overall: average([...days.values()]), dayCount: days.size };
+};
+
+// --- CHARTS ---
+interface ChartSeries {
+  label: string;
+  color: string;
+  values: (number | null)[]; // null leaves a gap, e.g. for months still ahead
+}
+
+interface PlotArea {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+interface AxisScale {
+  min: number;
+  max: number;
+  step: number;
+}
+
+const CHART_WIDTH = 640; // CSS pixels
+const CHART_HEIGHT = 300;
+const CHART_TITLE_HEIGHT = 28;
+const CHART_SCALE = 2; // Canvas pixels per CSS pixel, so exported PNGs stay sharp
+const CHART_FONT = "12px -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif";
+const CHART_TITLE_FONT = "bold 14px -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif";
+const CHART_COLORS = ['#007bff', '#28a745', '#ffc107', '#dc3545', '#17a2b8', '#6c757d'];
+const CHART_TEXT_COLOR = '#6c757d';
+const CHART_GRID_COLOR = '#dee2e6';
+const WEEKDAY_CHART_LABELS = WEEKDAY_ORDER.map(weekday => WEEKDAY_SHORT_NAMES[weekday]);
+
+const formatChartHours = (hours: number): string => `${formatDays(hours)} h`;
+
+// Widens the value range to steps of 1, 2 or 5 times a power of ten, always including 0.
+const getAxisScale = (values: number[]): AxisScale => {
+    const min = Math.min(0, ...values);
+    const max = Math.max(0, ...values);
+    const rawStep = (max - min || 1) / 5;
+    const magnitude = 10 ** Math.floor(Math.log10(rawStep));
+    const step = [1, 2, 5, 10].map(factor => factor * magnitude).find(s => s >= rawStep) as number;
+    return { min: Math.floor(min / step) * step, max: Math.ceil(max / step) * step, step };
+};
+
+const drawChartMessage = (ctx: CanvasRenderingContext2D, width: number, height: number, message: string) => {
+    ctx.font = CHART_FONT;
+    ctx.fillStyle = CHART_TEXT_COLOR;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(message, width / 2, height / 2);
+};
+
+// Draws the grid lines with their labels and returns the value-to-y mapping. An inverted
+// axis has its lowest value at the top.
+const drawValueAxis = (ctx: CanvasRenderingContext2D, area: PlotArea, scale: AxisScale, format: (value: number) => string, isInverted = false): (value: number) => number => {
+    const toY = (value: number) => {
+        const offset = ((value - scale.min) / (scale.max - scale.min)) * (area.bottom - area.top);
+        return isInverted ? area.top + offset : area.bottom - offset;
+    };
+    ctx.font = CHART_FONT;
+    ctx.textAlign = 'right';
+    ctx.textBaseline = 'middle';
+    ctx.lineWidth = 1;
+    for (let i = 0; scale.min + i * scale.step <= scale.max + scale.step / 2; i++) {
+        const value = scale.min + i * scale.step;
+        const y = toY(value);
+        ctx.strokeStyle = value === 0 ? CHART_TEXT_COLOR : CHART_GRID_COLOR;
+        ctx.beginPath();
+        ctx.moveTo(area.left, y);
+        ctx.lineTo(area.right, y);
+        ctx.stroke();
+        ctx.fillStyle = CHART_TEXT_COLOR;
+        ctx.fillText(format(value), area.left - 6, y);
+    }
+    return toY;
+};
+
+const drawCategoryLabels = (ctx: CanvasRenderingContext2D, area: PlotArea, labels: string[], toX: (index: number) => number) => {
+    ctx.font = CHART_FONT;
+    ctx.fillStyle = CHART_TEXT_COLOR;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    labels.forEach((label, index) => ctx.fillText(label, toX(index), area.bottom + 8));
+};
+
+const drawLineChart = (ctx: CanvasRenderingContext2D, width: number, height: number, labels: string[], series: ChartSeries[], format: (value: number) => string) => {
+    const values = series.flatMap(s => s.values).filter((v): v is number => v !== null);
+    if (values.length === 0) {
+        drawChartMessage(ctx, width, height, 'Keine Daten');
+        return;
+    }
+    const area: PlotArea = { left: 56, top: 28, right: width - 16, bottom: height - 28 };
+    const toY = drawValueAxis(ctx, area, getAxisScale(values), format);
+    const toX = (index: number) => area.left + ((index + 0.5) * (area.right - area.left)) / labels.length;
+    drawCategoryLabels(ctx, area, labels, toX);
+
+    series.forEach((s, seriesIndex) => {
+        ctx.strokeStyle = s.color;
+        ctx.fillStyle = s.color;
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        let isDrawing = false;
+        s.values.forEach((value, index) => {
+            if (value === null) {
+                isDrawing = false;
+                return;
+            }
+            if (isDrawing) ctx.lineTo(toX(index), toY(value));
+            else ctx.moveTo(toX(index), toY(value));
+            isDrawing = true;
+        });
+        ctx.stroke();
+        s.values.forEach((value, index) => {
+            if (value === null) return;
+            ctx.beginPath();
+            ctx.arc(toX(index), toY(value), 3, 0, 2 * Math.PI);
+            ctx.fill();
+        });
+
+        // Legend above the plot
+        const legendX = area.left + seriesIndex * 180;
+        ctx.fillRect(legendX, 6, 12, 12);
+        ctx.font = CHART_FONT;
+        ctx.fillStyle = CHART_TEXT_COLOR;
+        ctx.textAlign = 'left';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(s.label, legendX + 18, 12);
+    });
+};
+
+const drawColumnChart = (ctx: CanvasRenderingContext2D, width: number, height: number, labels: string[], values: number[], color: string, format: (value: number) => string) => {
+    if (values.every(v => v === 0)) {
+        drawChartMessage(ctx, width, height, 'Keine Daten');
+        return;
+    }
+    const area: PlotArea = { left: 56, top: 20, right: width - 16, bottom: height - 28 };
+    const toY = drawValueAxis(ctx, area, getAxisScale(values), format);
+    const slotWidth = (area.right - area.left) / labels.length;
+    const toX = (index: number) => area.left + (index + 0.5) * slotWidth;
+    drawCategoryLabels(ctx, area, labels, toX);
+
+    values.forEach((value, index) => {
+        const barWidth = slotWidth * 0.6;
+        ctx.fillStyle = color;
+        ctx.fillRect(toX(index) - barWidth / 2, toY(value), barWidth, toY(0) - toY(value));
+        if (value === 0) return;
+        ctx.fillStyle = CHART_TEXT_COLOR;
+        ctx.textBaseline = 'bottom';
+        ctx.fillText(format(value), toX(index), toY(value) - 2);
+    });
+};
+
+const drawBarChart = (ctx: CanvasRenderingContext2D, width: number, height: number, items: { label: string; value: number }[], color: string, format: (value: number) => string) => {
+    if (items.length === 0) {
+        drawChartMessage(ctx, width, height, 'Keine Daten');
+        return;
+    }
+    const labelWidth = 170;
+    const area: PlotArea = { left: labelWidth, top: 4, right: width - 70, bottom: height - 4 };
+    const slotHeight = (area.bottom - area.top) / items.length;
+    const maxValue = Math.max(...items.map(item => item.value)) || 1;
+    ctx.font = CHART_FONT;
+    ctx.textBaseline = 'middle';
+
+    items.forEach((item, index) => {
+        const y = area.top + (index + 0.5) * slotHeight;
+        let label = item.label;
+        while (label.length > 1 && ctx.measureText(label).width > labelWidth - 12) {
+            label = label.slice(0, -2) + '…';
+        }
+        ctx.fillStyle = CHART_TEXT_COLOR;
+        ctx.textAlign = 'right';
+        ctx.fillText(label, area.left - 8, y);
+        const barLength = (item.value / maxValue) * (area.right - area.left);
+        const barHeight = Math.min(22, slotHeight * 0.7);
+        ctx.fillStyle = color;
+        ctx.fillRect(area.left, y - barHeight / 2, barLength, barHeight);
+        ctx.fillStyle = CHART_TEXT_COLOR;
+        ctx.textAlign = 'left';
+        ctx.fillText(format(item.value), area.left + barLength + 6, y);
+    });
+};
+
+// Floating bars from a start to an end time, e.g. average working hours per weekday.
+const drawTimeRangeChart = (ctx: CanvasRenderingContext2D, width: number, height: number, labels: string[], ranges: ({ start: number; end: number } | null)[], color: string) => {
+    const bounds = ranges.filter((r): r is { start: number; end: number } => r !== null);
+    if (bounds.length === 0) {
+        drawChartMessage(ctx, width, height, 'Keine Daten');
+        return;
+    }
+    const min = Math.floor(Math.min(...bounds.map(r => r.start)) / 60) * 60;
+    const max = Math.max(min + 60, Math.ceil(Math.max(...bounds.map(r => r.end)) / 60) * 60);
+    const area: PlotArea = { left: 56, top: 20, right: width - 16, bottom: height - 28 };
+    // Earlier times are drawn at the top, as in a day planner.
+    const toTimeY = drawValueAxis(ctx, area, { min, max, step: max - min > 8 * 60 ? 120 : 60 }, minutesToTime, true);
+    const slotWidth = (area.right - area.left) / labels.length;
+    const toX = (index: number) => area.left + (index + 0.5) * slotWidth;
+    drawCategoryLabels(ctx, area, labels, toX);
+
+    ranges.forEach((range, index) => {
+        if (!range) return;
+        const barWidth = slotWidth * 0.5;
+        ctx.fillStyle = color;
+        ctx.fillRect(toX(index) - barWidth / 2, toTimeY(range.start), barWidth, toTimeY(range.end) - toTimeY(range.start));
+        ctx.fillStyle = CHART_TEXT_COLOR;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'bottom';
+        ctx.fillText(minutesToTime(Math.round(range.start)), toX(index), toTimeY(range.start) - 2);
+        ctx.textBaseline = 'top';
+        ctx.fillText(minutesToTime(Math.round(range.end)), toX(index), toTimeY(range.end) + 2);
+    });
+};
+
+// --- PDF GENERATION ---
+interface PdfColumn {
+  header: string;
+  width: number; // mm
+  align?: 'left' | 'right';
+}
+
+interface PdfRow {
+  cells: string[]; // A 'heading' row has a single cell spanning the full width
+  variant?: 'heading' | 'detail' | 'subtotal' | 'total';
+}
+
+interface TimesheetPdfData {
+  title: string;
+  subtitle: string;
+  summary: { label: string; value: string }[];
+  columns: PdfColumn[];
+  rows: PdfRow[];
+  auditLog: string[]; // Printed below the table
+  signatureLabels: string[]; // One signature line each at the end, none if empty
+}
+
+const PDF_MARGIN = 15;
+const PDF_FONT_SIZE = 9;
+const PDF_LINE_HEIGHT = 4;
+const PDF_CELL_PADDING = 1.8;
+const PDF_SUMMARY_PER_LINE = 4;
+const PDF_ROW_FILLS: Partial<Record<NonNullable<PdfRow['variant']>, [number, number, number]>> = {
+  heading: [234, 245, 255],
+  subtotal: [248, 249, 250],
+  total: [233, 236, 239],
+};
+const PDF_SIGNATURE_LABELS = ['Datum, Unterschrift Mitarbeiter/in', 'Datum, Unterschrift Vorgesetzte/r'];
+
+// Builds the timesheet as text and vector lines, so rows are never cut in half
+// and the content stays selectable and searchable.
+const createTimesheetPDF = (data: TimesheetPdfData): jsPDF => {
+  const pdf = new jsPDF('p', 'mm', 'a4');
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - 2 * PDF_MARGIN;
+  const bottomLimit = pageHeight - PDF_MARGIN - 5; // Keep clear of the page number
+  let y = PDF_MARGIN;
+
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(18);
+  pdf.setTextColor(0, 123, 255);
+  pdf.text(data.title, PDF_MARGIN, y + 6);
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(11);
+  pdf.setTextColor(108, 117, 125);
+  pdf.text(data.subtitle, PDF_MARGIN, y + 12);
+  y += 18;
+
+  // Summary block
+  const boxWidth = contentWidth / PDF_SUMMARY_PER_LINE;
+  const boxHeight = 12;
+  pdf.setDrawColor(222, 226, 230);
+  data.summary.forEach((item, index) => {
+    const column = index % PDF_SUMMARY_PER_LINE;
+    if (column === 0 && index > 0) y += boxHeight;
+    const x = PDF_MARGIN + column * boxWidth;
+    pdf.rect(x, y, boxWidth, boxHeight);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(7.5);
+    pdf.setTextColor(108, 117, 125);
+    pdf.text(item.label, x + boxWidth / 2, y + 4.5, { align: 'center' });
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(10.5);
+    pdf.setTextColor(33, 37, 41);
+    pdf.text(item.value, x + boxWidth / 2, y + 9.8, { align: 'center' });
+  });
+  if (data.summary.length > 0) y += boxHeight + 8;
+
+  // Entry table
+  const columnX = data.columns.map((_, index) => PDF_MARGIN + data.columns.slice(0, index).reduce((sum, c) => sum + c.width, 0));
+  const textX = (index: number) => {
+    const column = data.columns[index];
+    return column.align === 'right' ? columnX[index] + column.width - PDF_CELL_PADDING : columnX[index] + PDF_CELL_PADDING;
+  };
+  const headerHeight = PDF_LINE_HEIGHT + 2 * PDF_CELL_PADDING;
+
+  const drawTableHeader = () => {
+    pdf.setFillColor(242, 242, 242);
+    pdf.rect(PDF_MARGIN, y, contentWidth, headerHeight, 'F');
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(PDF_FONT_SIZE);
+    pdf.setTextColor(33, 37, 41);
+    data.columns.forEach((column, index) => {
+      pdf.text(column.header, textX(index), y + PDF_CELL_PADDING + PDF_LINE_HEIGHT * 0.75, { align: column.align || 'left' });
+    });
+    y += headerHeight;
+  };
+
+  drawTableHeader();
+
+  if (data.rows.length === 0) {
+    pdf.setFont('helvetica', 'normal');
+    pdf.text('Keine Einträge vorhanden.', pageWidth / 2, y + 8, { align: 'center' });
+    y += 12;
+  }
+
+  data.rows.forEach(row => {
+    const fontStyle = !row.variant ? 'normal' : row.variant === 'detail' ? 'italic' : 'bold';
+    pdf.setFont('helvetica', fontStyle);
+    pdf.setFontSize(PDF_FONT_SIZE);
+    const cellWidth = (index: number) => (row.variant === 'heading' ? contentWidth : data.columns[index].width);
+    const cellLines: string[][] = row.cells.map((cell, index) => pdf.splitTextToSize(cell, cellWidth(index) - 2 * PDF_CELL_PADDING));
+    const rowHeight = Math.max(1, ...cellLines.map(lines => lines.length)) * PDF_LINE_HEIGHT + 2 * PDF_CELL_PADDING;
+
+    if (y + rowHeight > bottomLimit) {
+      pdf.addPage();
+      y = PDF_MARGIN;
+      drawTableHeader();
+      pdf.setFont('helvetica', fontStyle);
+      pdf.setFontSize(PDF_FONT_SIZE);
+    }
+
+    const fillColor = row.variant ? PDF_ROW_FILLS[row.variant] : undefined;
+    if (fillColor) {
+      pdf.setFillColor(...fillColor);
+      pdf.rect(PDF_MARGIN, y, contentWidth, rowHeight, 'F');
+    }
+    pdf.setTextColor(row.variant === 'detail' ? 108 : 33, row.variant === 'detail' ? 117 : 37, row.variant === 'detail' ? 125 : 41);
+    cellLines.forEach((lines, index) => {
+      lines.forEach((line, lineIndex) => {
+        pdf.text(line, textX(index), y + PDF_CELL_PADDING + PDF_LINE_HEIGHT * (lineIndex + 0.75), { align: data.columns[index].align || 'left' });
+      });
+    });
+    pdf.setDrawColor(222, 226, 230);
+    pdf.line(PDF_MARGIN, y + rowHeight, PDF_MARGIN + contentWidth, y + rowHeight);
+    y += rowHeight;
+  });
+
+  // Audit log
+  if (data.auditLog.length > 0) {
+    y += 6;
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(PDF_FONT_SIZE);
+    const logLines: string[] = data.auditLog.flatMap(line => pdf.splitTextToSize(line, contentWidth));
+    if (y + PDF_LINE_HEIGHT * 2 > bottomLimit) {
+      pdf.addPage();
+      y = PDF_MARGIN;
+    }
+    pdf.setFont('helvetica', 'bold');
+    pdf.setTextColor(33, 37, 41);
+    pdf.text('Protokoll', PDF_MARGIN, y + PDF_LINE_HEIGHT * 0.75);
+    y += PDF_LINE_HEIGHT + 1;
+    pdf.setFont('helvetica', 'normal');
+    logLines.forEach(line => {
+      if (y + PDF_LINE_HEIGHT > bottomLimit) {
+        pdf.addPage();
+        y = PDF_MARGIN;
+      }
+      pdf.text(line, PDF_MARGIN, y + PDF_LINE_HEIGHT * 0.75);
+      y += PDF_LINE_HEIGHT;
+    });
+  }
+
+  // Signature lines
+  if (data.signatureLabels.length > 0) {
+    const signatureSpace = 28;
+    if (y + signatureSpace > bottomLimit) {
+      pdf.addPage();
+      y = PDF_MARGIN;
+    }
+    y += 22;
+    const signatureGap = 20;
+    const signatureWidth = (contentWidth - signatureGap * (data.signatureLabels.length - 1)) / data.signatureLabels.length;
+    pdf.setDrawColor(33, 37, 41);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(8);
+    pdf.setTextColor(108, 117, 125);
+    data.signatureLabels.forEach((label, index) => {
+      const x = PDF_MARGIN + index * (signatureWidth + signatureGap);
+      pdf.line(x, y, x + signatureWidth, y);
+      pdf.text(label, x, y + 4);
+    });
+  }
+
+  // Page numbers
+  const pageCount = pdf.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    pdf.setPage(page);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(8);
+    pdf.setTextColor(108, 117, 125);
+    pdf.text(data.subtitle, PDF_MARGIN, pageHeight - PDF_MARGIN / 2);
+    pdf.text(`Seite ${page} von ${pageCount}`, pageWidth - PDF_MARGIN, pageHeight - PDF_MARGIN / 2, { align: 'right' });
+  }
+
+  return pdf;
+};
+
+// --- SPREADSHEET EXPORT ---
+type SpreadsheetCell = string | number;
+
+interface SpreadsheetSheet {
+  name: string;
+  rows: SpreadsheetCell[][]; // The first row holds the column headers
+}
+
+type ExportColumnId = 'date' | 'weekday' | 'week' | 'type' | 'location' | 'startTime' | 'endTime' | 'hours' | 'note';
+type SpreadsheetFormat = 'csv' | 'xlsx';
+
+const EXPORT_COLUMNS: { id: ExportColumnId; header: string }[] = [
+  { id: 'date', header: 'Datum' },
+  { id: 'weekday', header: 'Wochentag' },
+  { id: 'week', header: 'KW' },
+  { id: 'type', header: 'Art' },
+  { id: 'location', header: 'Ort / Auftrag' },
+  { id: 'startTime', header: 'Von' },
+  { id: 'endTime', header: 'Bis' },
+  { id: 'hours', header: 'Stunden' },
+  { id: 'note', header: 'Bemerkung' },
+];
+const DEFAULT_EXPORT_COLUMNS: ExportColumnId[] = ['date', 'weekday', 'type', 'location', 'startTime', 'endTime', 'hours'];
+const ENTRY_KIND_LABELS: Record<EntryKind, string> = { work: 'Arbeit', pause: 'Pause', onCall: 'Bereitschaft', absence: 'Abwesenheit' };
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const roundHours = (hours: number): number => Math.round(hours * 100) / 100;
+
+const formatNumericDate = (dateString: string): string => {
+    const [year, month, day] = dateString.split('-');
+    return `${day}.${month}.${year}`;
+};
+
+// One row per entry, each deployment in its own row right after its on-call entry.
+// Pauses count negative, so the hours column adds up to the booked net time.
+const getSpreadsheetEntryRows = (entries: Entry[], columns: ExportColumnId[], absenceTypes: AbsenceType[]): SpreadsheetCell[][] => {
+    const createRow = (date: string, cells: Partial<Record<ExportColumnId, SpreadsheetCell>>): SpreadsheetCell[] => {
+        const allCells: Record<ExportColumnId, SpreadsheetCell> = {
+            date: formatNumericDate(date),
+            weekday: WEEKDAY_SHORT_NAMES[parseISODate(date).getDay()],
+            week: getISOWeek(date).week,
+            type: '',
+            location: '',
+            startTime: '',
+            endTime: '',
+            hours: '',
+            note: '',
+            ...cells,
+        };
+        return columns.map(column => allCells[column]);
+    };
+    const getIntervalCells = (startTime: string, endTime: string, sign = 1) => ({
+        startTime,
+        endTime,
+        hours: sign * roundHours(calculateHours(startTime, endTime)),
+        note: isOvernight(startTime, endTime) ? 'Ende am Folgetag' : '',
+    });
+
+    const rows: SpreadsheetCell[][] = [columns.map(column => EXPORT_COLUMNS.find(c => c.id === column)?.header || column)];
+    entries.forEach(entry => {
+        const notes = [entry.isHalfDay ? 'Halber Tag' : '', entry.isChildSick ? 'Kind krank' : ''].filter(Boolean).join(', ');
+        rows.push(createRow(entry.date, {
+            type: getAbsenceType(entry, absenceTypes)?.name || ENTRY_KIND_LABELS[entry.kind],
+            location: entry.kind === 'work' ? entry.location : '',
+            note: notes,
+            ...(hasTimes(entry.kind) ? getIntervalCells(entry.startTime, entry.endTime, entry.kind === 'pause' ? -1 : 1) : {}),
+        }));
+        (entry.deployments || []).forEach(dep => {
+            rows.push(createRow(entry.date, { type: 'Einsatz', location: dep.location, ...getIntervalCells(dep.startTime, dep.endTime) }));
+        });
+    });
+    return rows;
+};
+
+// Text starting like a formula gets a leading apostrophe, so spreadsheet apps show it
+// instead of evaluating it. Numbers are written as they are.
+const formatCsvCell = (cell: SpreadsheetCell): string => {
+    const text = typeof cell === 'number' ? cell.toString().replace('.', ',') : /^[=+\-@\t\r]/.test(cell) ? `'${cell}` : cell;
+    return /[";\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Semicolons and the byte order mark let Excel in German locales open the file
+// with the right columns and umlauts.
+const createCSV = (rows: SpreadsheetCell[][]): Blob => {
+    const text = rows.map(row => row.map(formatCsvCell).join(';')).join('\r\n');
+    return new Blob([`\uFEFF${text}\r\n`], { type: 'text/csv;charset=utf-8' });
+};
+
+const CRC32_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+    let crc = 0xFFFFFFFF;
+    for (const byte of data) {
+        crc = CRC32_TABLE[(crc ^ byte) & 0xFF] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+// Local and central headers share this block: version, flags, method, time, date,
+// checksum, both sizes and the name length. Names are flagged as UTF-8.
+const ZIP_DOS_DATE = (1 << 5) | 1; // 1980-01-01, the archive needs no real timestamps
+const setZipFileFields = (view: DataView, offset: number, crc: number, size: number, nameLength: number) => {
+    view.setUint16(offset, 20, true);
+    view.setUint16(offset + 2, 0x0800, true);
+    view.setUint16(offset + 8, ZIP_DOS_DATE, true);
+    view.setUint32(offset + 10, crc, true);
+    view.setUint32(offset + 14, size, true);
+    view.setUint32(offset + 18, size, true);
+    view.setUint16(offset + 22, nameLength, true);
+};
+
+// Writes an uncompressed zip archive; a month of entries stays small without compression.
+const createZip = (files: { name: string; content: string }[], type: string): Blob => {
+    const encoder = new TextEncoder();
+    const parts: Uint8Array[] = [];
+    const centralHeaders: Uint8Array[] = [];
+    let offset = 0;
+    files.forEach(file => {
+        const name = encoder.encode(file.name);
+        const data = encoder.encode(file.content);
+        const crc = crc32(data);
+
+        const localHeader = new Uint8Array(30 + name.length);
+        const localView = new DataView(localHeader.buffer);
+        localView.setUint32(0, 0x04034B50, true);
+        setZipFileFields(localView, 4, crc, data.length, name.length);
+        localHeader.set(name, 30);
+        parts.push(localHeader, data);
+
+        const centralHeader = new Uint8Array(46 + name.length);
+        const centralView = new DataView(centralHeader.buffer);
+        centralView.setUint32(0, 0x02014B50, true);
+        centralView.setUint16(4, 20, true);
+        setZipFileFields(centralView, 6, crc, data.length, name.length);
+        centralView.setUint32(42, offset, true);
+        centralHeader.set(name, 46);
+        centralHeaders.push(centralHeader);
+
+        offset += localHeader.length + data.length;
+    });
+
+    const end = new Uint8Array(22);
+    const endView = new DataView(end.buffer);
+    endView.setUint32(0, 0x06054B50, true);
+    endView.setUint16(8, files.length, true);
+    endView.setUint16(10, files.length, true);
+    endView.setUint32(12, centralHeaders.reduce((sum, header) => sum + header.length, 0), true);
+    endView.setUint32(16, offset, true);
+    return new Blob([...parts, ...centralHeaders, end], { type });
+};
+
+const escapeXml = (text: string): string => {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+};
+
+// Column letters as used in cell references: A … Z, AA, AB, …
+const getColumnName = (index: number): string => {
+    let name = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+    }
+    return name;
+};
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+const XLSX_MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const XLSX_REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const XLSX_PACKAGE_REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+// Strings are written inline, which spares a shared string table. Style 1 makes the header row bold.
+const createSheetXML = (rows: SpreadsheetCell[][]): string => {
+    const rowsXML = rows.map((row, rowIndex) => {
+        const cells = row.map((cell, columnIndex) => {
+            const attributes = `r="${getColumnName(columnIndex)}${rowIndex + 1}"${rowIndex === 0 ? ' s="1"' : ''}`;
+            if (typeof cell === 'number') return `<c ${attributes}><v>${cell}</v></c>`;
+            return cell ? `<c ${attributes} t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>` : '';
+        });
+        return `<row r="${rowIndex + 1}">${cells.join('')}</row>`;
+    });
+    return `${XML_HEADER}<worksheet xmlns="${XLSX_MAIN_NS}"><sheetData>${rowsXML.join('')}</sheetData></worksheet>`;
+};
+
+const XLSX_STYLES = `${XML_HEADER}<styleSheet xmlns="${XLSX_MAIN_NS}">`
+    + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+    + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+    + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+    + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+    + '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>'
+    + '</styleSheet>';
+
+// Builds a minimal Office Open XML workbook in the browser, one worksheet per sheet.
+const createXLSX = (sheets: SpreadsheetSheet[]): Blob => {
+    const sheetFiles = sheets.map((sheet, index) => ({ name: `xl/worksheets/sheet${index + 1}.xml`, content: createSheetXML(sheet.rows) }));
+    const contentTypes = `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+        + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+        + '<Default Extension="xml" ContentType="application/xml"/>'
+        + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+        + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+        + sheetFiles.map(file => `<Override PartName="/${file.name}" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')
+        + '</Types>';
+    const packageRels = `${XML_HEADER}<Relationships xmlns="${XLSX_PACKAGE_REL_NS}">`
+        + `<Relationship Id="rId1" Type="${XLSX_REL_NS}/officeDocument" Target="xl/workbook.xml"/>`
+        + '</Relationships>';
+    const workbook = `${XML_HEADER}<workbook xmlns="${XLSX_MAIN_NS}" xmlns:r="${XLSX_REL_NS}"><sheets>`
+        + sheets.map((sheet, index) => `<sheet name="${escapeXml(sheet.name.slice(0, 31))}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join('')
+        + '</sheets></workbook>';
+    const workbookRels = `${XML_HEADER}<Relationships xmlns="${XLSX_PACKAGE_REL_NS}">`
+        + sheets.map((_, index) => `<Relationship Id="rId${index + 1}" Type="${XLSX_REL_NS}/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`).join('')
+        + `<Relationship Id="rId${sheets.length + 1}" Type="${XLSX_REL_NS}/styles" Target="styles.xml"/>`
+        + '</Relationships>';
+
+    return createZip([
+        { name: '[Content_Types].xml', content: contentTypes },
+        { name: '_rels/.rels', content: packageRels },
+        { name: 'xl/workbook.xml', content: workbook },
+        { name: 'xl/_rels/workbook.xml.rels', content: workbookRels },
+        { name: 'xl/styles.xml', content: XLSX_STYLES },
+        ...sheetFiles,
+    ], XLSX_MIME_TYPE);
+};
+
+// --- LOCATION REPORT ---
+interface LocationReportRow {
+  location: string;
+  days: number; // Dates with work or deployments at the location
+  workHours: number; // Net; each day's pauses are shared among its work entries by duration
+  deploymentHours: number; // Credited according to the on-call rules
+  details?: SavedLocation; // The saved location of the same name
+  amount?: number; // Euros, when the saved location has an hourly rate
+}
+
+const LOCATION_REPORT_COLUMNS = ['Ort / Auftrag', 'Kundennummer', 'Adresse', 'Kostenstelle', 'Tage', 'Arbeit (Std.)', 'Einsätze (Std.)', 'Stunden', 'Stundensatz (EUR)', 'Betrag (EUR)'];
+
+// Sums work and deployment hours per location for entries dated from `from` to `to`.
+// Locations are matched case-insensitively, like saved locations.
+const calculateLocationReport = (entries: Entry[], dayHoursByDate: Map<string, DayHours>, from: string, to: string, onCallSettings: OnCallSettings, savedLocations: SavedLocation[]): LocationReportRow[] => {
+    const rows = new Map<string, { row: LocationReportRow; dates: Set<string> }>();
+    const getRow = (location: string) => {
+        const name = location.trim() || 'Ohne Ort';
+        const key = name.toLowerCase();
+        let item = rows.get(key);
+        if (!item) {
+            const details = savedLocations.find(l => l.name.trim().toLowerCase() === key);
+            item = { row: { location: details?.name || name, days: 0, workHours: 0, deploymentHours: 0, details }, dates: new Set() };
+            rows.set(key, item);
+        }
+        return item;
+    };
+
+    // Work hours count on the day they fall on, so an overnight entry is split at the range
+    // ends; this includes one from the day before the range.
+    entries.forEach(entry => {
+        if (entry.date < addDays(from, -1) || entry.date > to) return;
+        if (entry.kind === 'work') {
+            const segments = splitIntervalByDay(entry.date, entry.startTime, entry.endTime).filter(segment => segment.date >= from && segment.date <= to);
+            if (segments.length > 0) {
+                const item = getRow(entry.location);
+                item.dates.add(segments[0].date);
+                segments.forEach(segment => {
+                    const dayHours = dayHoursByDate.get(segment.date);
+                    const netShare = dayHours && dayHours.gross > 0 ? dayHours.net / dayHours.gross : 1;
+                    item.row.workHours += ((segment.end - segment.start) / 60) * netShare;
+                });
+            }
+        }
+        if (entry.date < from) return;
+        (entry.deployments || []).forEach(dep => {
+            const item = getRow(dep.location);
+            item.dates.add(entry.date);
+            item.row.deploymentHours += getDeploymentHours(dep, onCallSettings).credited;
+        });
+    });
+
+    return [...rows.values()]
+        .map(({ row, dates }) => {
+            const rate = row.details?.hourlyRate;
+            const amount = rate === undefined ? undefined : Math.round(roundHours(row.workHours + row.deploymentHours) * rate * 100) / 100;
+            return { ...row, days: dates.size, amount };
+        })
+        .sort((a, b) => a.location.localeCompare(b.location, 'de'));
+};
+
+// Days are not summed, as a day with several locations would count more than once.
+const getLocationReportTotals = (rows: LocationReportRow[]) => ({
+    workHours: rows.reduce((sum, row) => sum + row.workHours, 0),
+    deploymentHours: rows.reduce((sum, row) => sum + row.deploymentHours, 0),
+    amount: rows.some(row => row.amount !== undefined) ? rows.reduce((sum, row) => sum + (row.amount ?? 0), 0) : undefined,
+});
+
+const createLocationReportPDF = (rows: LocationReportRow[], from: string, to: string, employeeName: string): jsPDF => {
+    const totals = getLocationReportTotals(rows);
+    const period = `${formatNumericDate(from)}–${formatNumericDate(to)}`;
+    const pdfRows: PdfRow[] = rows.flatMap(row => {
+        const details = [
+            row.details?.customerNumber ? `Kd.-Nr. ${row.details.customerNumber}` : '',
+            row.details?.address.replace(/\s*\n\s*/g, ', ') || '',
+            row.details?.costCentre ? `Kostenstelle ${row.details.costCentre}` : '',
+        ].filter(Boolean);
+        return [
+            { cells: [
+                row.location,
+                row.days.toString(),
+                row.workHours.toFixed(2),
+                row.deploymentHours.toFixed(2),
+                (row.workHours + row.deploymentHours).toFixed(2),
+                row.details?.hourlyRate !== undefined ? formatCurrency(row.details.hourlyRate) : '-',
+                row.amount !== undefined ? formatCurrency(row.amount) : '-',
+            ] },
+            ...(details.length > 0 ? [{ variant: 'detail' as const, cells: [details.join(' · '), '', '', '', '', '', ''] }] : []),
+        ];
+    });
+    if (rows.length > 0) {
+        pdfRows.push({ variant: 'total', cells: [
+            'Summe',
+            '',
+            totals.workHours.toFixed(2),
+            totals.deploymentHours.toFixed(2),
+            (totals.workHours + totals.deploymentHours).toFixed(2),
+            '',
+            totals.amount !== undefined ? formatCurrency(totals.amount) : '-',
+        ] });
+    }
+
+    return createTimesheetPDF({
+        title: 'Stunden nach Ort / Auftrag',
+        subtitle: employeeName ? `${period} für ${employeeName}` : period,
+        summary: [
+            { label: 'Arbeitsstunden', value: `${totals.workHours.toFixed(2)} Std.` },
+            { label: 'Einsatzstunden angerechnet', value: `${totals.deploymentHours.toFixed(2)} Std.` },
+            { label: 'Stunden gesamt', value: `${(totals.workHours + totals.deploymentHours).toFixed(2)} Std.` },
+            ...(totals.amount !== undefined ? [{ label: 'Betrag gesamt', value: formatCurrency(totals.amount) }] : []),
+        ],
+        columns: [
+            { header: 'Ort / Auftrag', width: 60 },
+            { header: 'Tage', width: 14, align: 'right' },
+            { header: 'Arbeit', width: 20, align: 'right' },
+            { header: 'Einsätze', width: 20, align: 'right' },
+            { header: 'Stunden', width: 20, align: 'right' },
+            { header: 'Satz', width: 22, align: 'right' },
+            { header: 'Betrag', width: 24, align: 'right' },
+        ],
+        rows: pdfRows,
+        auditLog: [],
+        signatureLabels: [],
+    });
+};
+
+// Numbers stay numbers, like in the timesheet export, so the invoice can calculate with them.
+const getLocationReportSpreadsheetRows = (rows: LocationReportRow[]): SpreadsheetCell[][] => {
+    const totals = getLocationReportTotals(rows);
+    return [
+        LOCATION_REPORT_COLUMNS,
+        ...rows.map(row => [
+            row.location,
+            row.details?.customerNumber ?? '',
+            row.details?.address ?? '',
+            row.details?.costCentre ?? '',
+            row.days,
+            roundHours(row.workHours),
+            roundHours(row.deploymentHours),
+            roundHours(row.workHours + row.deploymentHours),
+            row.details?.hourlyRate ?? '',
+            row.amount ?? '',
+        ]),
+        ['Summe', '', '', '', '', roundHours(totals.workHours), roundHours(totals.deploymentHours), roundHours(totals.workHours + totals.deploymentHours), '', totals.amount ?? ''],
+    ];
+};
+
+// --- ICALENDAR ---
+type IcsEntryType = 'work' | 'deployment' | 'onCall' | 'absence';
+
+interface IcsEvent {
+  uid: string;
+  summary: string;
+  start: string; // YYYY-MM-DD
+  end: string; // Last day of the event, inclusive
+}
+
+const ICS_ENTRY_TYPES: { id: IcsEntryType; label: string }[] = [
+  { id: 'work', label: 'Arbeit' },
+  { id: 'deployment', label: 'Einsätze' },
+  { id: 'onCall', label: 'Bereitschaft' },
+  { id: 'absence', label: 'Abwesenheiten' },
+];
+const ICS_UID_DOMAIN = 'wochenzettel';
+const ICS_MAX_LINE_BYTES = 75;
+
+const escapeIcsText = (text: string): string => {
+    return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+};
+
+const unescapeIcsText = (text: string): string => {
+    return text.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+};
+
+// Long lines continue on the next line after a space (RFC 5545, 3.1).
+const foldIcsLine = (line: string): string => {
+    const encoder = new TextEncoder();
+    let result = '';
+    let lineBytes = 0;
+    for (const char of line) {
+        const bytes = encoder.encode(char).length;
+        if (lineBytes + bytes > ICS_MAX_LINE_BYTES) {
+            result += '\r\n ';
+            lineBytes = 1;
+        }
+        result += char;
+        lineBytes += bytes;
+    }
+    return result;
+};
+
+const toIcsDate = (dateString: string): string => dateString.replace(/-/g, '');
+
+// Work and deployments become timed events, on-call duty and absences all-day events.
+// Times carry no time zone, so calendar apps show them as they were entered.
+const createICS = (entries: Entry[], types: IcsEntryType[], absenceTypes: AbsenceType[]): string => {
+    const stamp = `${new Date().toISOString().replace(/[-:]/g, '').slice(0, 15)}Z`;
+    const events: string[][] = [];
+    const addTimedEvent = (id: string, summary: string, date: string, startTime: string, endTime: string) => {
+        const endDate = isOvernight(startTime, endTime) ? addDays(date, 1) : date;
+        events.push([
+            `UID:${id}@${ICS_UID_DOMAIN}`,
+            `DTSTAMP:${stamp}`,
+            `DTSTART:${toIcsDate(date)}T${startTime.replace(':', '')}00`,
+            `DTEND:${toIcsDate(endDate)}T${endTime.replace(':', '')}00`,
+            `SUMMARY:${escapeIcsText(summary)}`,
+        ]);
+    };
+    const addAllDayEvent = (id: string, summary: string, date: string) => {
+        events.push([
+            `UID:${id}@${ICS_UID_DOMAIN}`,
+            `DTSTAMP:${stamp}`,
+            `DTSTART;VALUE=DATE:${toIcsDate(date)}`,
+            `DTEND;VALUE=DATE:${toIcsDate(addDays(date, 1))}`,
+            `SUMMARY:${escapeIcsText(summary)}`,
+            'TRANSP:TRANSPARENT',
+        ]);
+    };
+
+    entries.forEach(entry => {
+        if (entry.kind === 'work' && types.includes('work') && entry.startTime && entry.endTime) {
+            addTimedEvent(entry.id, entry.location, entry.date, entry.startTime, entry.endTime);
+        }
+        if (entry.kind === 'onCall' && types.includes('onCall')) {
+            addAllDayEvent(entry.id, getEntryLabel(entry, absenceTypes), entry.date);
+        }
+        if (entry.kind === 'onCall' && types.includes('deployment')) {
+            (entry.deployments || []).forEach(dep => addTimedEvent(dep.id, `Einsatz: ${dep.location}`, entry.date, dep.startTime, dep.endTime));
+        }
+        if (entry.kind === 'absence' && types.includes('absence')) {
+            addAllDayEvent(entry.id, `${getEntryLabel(entry, absenceTypes)}${entry.isHalfDay ? ' (½ Tag)' : ''}`, entry.date);
+        }
+    });
+
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Wochenzettel//Zeiterfassung//DE',
+        'CALSCALE:GREGORIAN',
+        ...events.flatMap(event => ['BEGIN:VEVENT', ...event, 'END:VEVENT']),
+        'END:VCALENDAR',
+    ];
+    return `${lines.map(foldIcsLine).join('\r\n')}\r\n`;
+};
+
+// UTC times are converted to local time; times with a TZID are taken as local time.
+const parseIcsDateValue = (value: string): { date: string; time?: string } | null => {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})\d{2}(Z)?)?$/);
+    if (!match) return null;
+    const [, year, month, day, hours, minutes, utc] = match;
+    if (hours === undefined) return { date: `${year}-${month}-${day}` };
+    if (utc) {
+        const local = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes)));
+        return { date: toISODate(local), time: getTimeOfDay(local) };
+    }
+    return { date: `${year}-${month}-${day}`, time: `${hours}:${minutes}` };
+};
+
+// Reads the events of a calendar file. An event covers every day it touches; the end of an
+// all-day event and an end at midnight are exclusive. Recurring events yield their first date only.
+const parseICS = (text: string): IcsEvent[] => {
+    const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+    const events: IcsEvent[] = [];
+    let properties: Map<string, string> | null = null;
+    lines.forEach(line => {
+        if (line === 'BEGIN:VEVENT') {
+            properties = new Map();
+        } else if (line === 'END:VEVENT' && properties) {
+            const start = parseIcsDateValue(properties.get('DTSTART') || '');
+            const end = parseIcsDateValue(properties.get('DTEND') || '') || start;
+            if (start && end && isValidISODate(start.date) && isValidISODate(end.date)) {
+                const isExclusiveEnd = end.date > start.date && (!end.time || end.time === '00:00');
+                events.push({
+                    uid: properties.get('UID') || '',
+                    summary: unescapeIcsText(properties.get('SUMMARY') || ''),
+                    start: start.date,
+                    end: isExclusiveEnd ? addDays(end.date, -1) : end.date,
+                });
+            }
+            properties = null;
+        } else if (properties) {
+            const colon = line.indexOf(':');
+            if (colon > 0) {
+                properties.set(line.slice(0, colon).split(';')[0].toUpperCase(), line.slice(colon + 1));
+            }
+        }
+    });
+    return events;
+};
+
+// On-call duty covers every day of an event, including weekends. Absences only cover
+// the working days, like a range entered in the form. Only absences become a range:
+// editing one rebuilds it from the working days, which would drop on-call weekend days.
+const convertIcsEvents = (events: IcsEvent[], kind: 'onCall' | 'absence', absenceType: AbsenceType | undefined, settings: WorkTimeSettings, idBase: string): Entry[] => {
+    return events.flatMap((event, eventIndex) => {
+        const dates: string[] = [];
+        if (kind === 'onCall') {
+            for (let date = event.start; date <= event.end; date = addDays(date, 1)) dates.push(date);
+        } else {
+            dates.push(...getWorkingDays(event.start, event.end, settings));
+        }
+        const rangeId = kind === 'absence' && event.end > event.start ? `${idBase}-${eventIndex}` : undefined;
+        return dates.map((date, index): Entry => ({
+            id: `${idBase}-${eventIndex}-${index}`,
+            date,
+            kind,
+            absenceTypeId: absenceType?.id,
+            location: getKindLocation(kind, absenceType),
+            startTime: '',
+            endTime: '',
+            rangeId,
+        }));
+    });
+};
+
+// --- CONFIRM MODAL COMPONENT ---
+interface ConfirmModalProps {
+  title: string;
+  message: string;
+  onConfirm: () => void;
+  onCancel: () => void;
+  confirmText?: string;
+  cancelText?: string;
+  confirmVariant?: 'danger' | 'primary';
+}
+
+const ConfirmModal = ({ title, message, onConfirm, onCancel, confirmText = 'Bestätigen', cancelText = 'Abbrechen', confirmVariant = 'primary' }: ConfirmModalProps) => {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onCancel();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [onCancel]);
+  
+  return (
+    <div className="modal-overlay" onClick={onCancel}>
       <div className="modal-content confirm-modal" onClick={e => e.stopPropagation()}>
         <div className="modal-header">
           <h2>{title}</h2>
           <button type="button" className="close-button" onClick={onCancel} aria-label="Schließen">&times;</button>
         </div>
-        <div className="modal-body">
-          <p>{message}</p>
+        <div className="modal-body">
+          <p>{message}</p>
+        </div>
+        <div className="modal-actions">
+          <button type="button" className="cancel-button" onClick={onCancel}>{cancelText}</button>
+          <button type="button" className={`submit-button ${confirmVariant === 'danger' ? 'danger' : ''}`} onClick={onConfirm}>
+            {confirmText}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+
+// --- ENTRY TYPE SELECT COMPONENT ---
+interface EntryTypeSelectProps {
+  id: string;
+  kind: EntryKind;
+  absenceTypeId?: string;
+  absenceTypes: AbsenceType[];
+  onChange: (type: { kind: EntryKind; absenceTypeId?: string }) => void;
+}
+
+const EntryTypeSelect = ({ id, kind, absenceTypeId, absenceTypes, onChange }: EntryTypeSelectProps) => (
+    <select id={id} value={getEntryTypeValue(kind, absenceTypeId)} onChange={e => onChange(parseEntryTypeValue(e.target.value))}>
+        <option value="work">Arbeit</option>
+        <option value="pause">Pause</option>
+        <option value="onCall">Bereitschaft</option>
+        <optgroup label="Abwesenheit">
+            {absenceTypes.map(type => <option key={type.id} value={getEntryTypeValue('absence', type.id)}>{type.name}</option>)}
+        </optgroup>
+    </select>
+);
+
+// --- EDIT MODAL COMPONENT ---
+interface EditModalProps {
+  entry: Entry;
+  range?: { from: string; to: string }; // Set when the entry belongs to a from–to range
+  absenceTypes: AbsenceType[];
+  onUpdate: (updatedEntry: Entry, rangeEnd?: string) => void;
+  onCancel: () => void;
+  savedLocations: SavedLocation[];
+}
+
+const EditModal = ({ entry, range, absenceTypes, onUpdate, onCancel, savedLocations }: EditModalProps) => {
+  const [formData, setFormData] = useState({
+    ...entry,
+    location: entry.kind === 'work' ? entry.location : '',
+    date: range ? range.from : entry.date,
+    rangeEnd: range ? range.to : '',
+    hasDeployments: !!entry.deployments && entry.deployments.length > 0,
+    deployments: entry.deployments || [],
+  });
+  const [currentDeployment, setCurrentDeployment] = useState({ location: '', startTime: '', endTime: '' });
+  const [error, setError] = useState<string | null>(null);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value, type, checked } = e.target;
+    setFormData(prev => ({
+        ...prev,
+        [name]: type === 'checkbox' ? checked : value
+    }));
+  };
+
+  const handleTimeBlur = (e: React.FocusEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    if (value) {
+      setFormData(prev => ({ ...prev, [name]: transformTimeShorthand(value) }));
+    }
+  };
+
+  const handleDeploymentChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setCurrentDeployment(prev => ({ ...prev, [name]: value }));
+  };
+  
+  const handleDeploymentTimeBlur = (e: React.FocusEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    if (value) {
+      setCurrentDeployment(prev => ({ ...prev, [name]: transformTimeShorthand(value) }));
+    }
+  };
+
+
+  const handleAddDeployment = () => {
+    const { location, startTime, endTime } = currentDeployment;
+    if (!location || !startTime || !endTime || calculateHours(startTime, endTime) <= 0) {
+        setError("Bitte für den Einsatz Ort, gültige Start- und Endzeit angeben.");
+        return;
+    }
+    setError(null);
+    setFormData(prev => ({
+        ...prev,
+        deployments: [...prev.deployments, { id: Date.now().toString(), ...currentDeployment }]
+    }));
+    setCurrentDeployment({ location: '', startTime: '', endTime: '' });
+  };
+
+  const handleRemoveDeployment = (id: string) => {
+    setFormData(prev => ({
+        ...prev,
+        deployments: prev.deployments.filter(d => d.id !== id)
+    }));
+  };
+
+  const isSpecialEntry = !hasTimes(formData.kind);
+  const absenceType = getAbsenceType(formData, absenceTypes);
+
+  const handleSaveChanges = (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    const { date, kind, location, startTime, endTime, isChildSick, isHalfDay, hasDeployments, deployments, id, rangeEnd } = formData;
+
+    const validationError = validateEntryFields({ date, kind, location, startTime, endTime });
+    if (validationError) {
+        setError(validationError);
+        return;
+    }
+
+    const isRangeEdit = !!range && isSpecialEntry;
+    if (isRangeEdit && rangeEnd && rangeEnd < date) {
+        setError("Das Enddatum darf nicht vor dem Startdatum liegen.");
+        return;
+    }
+
+    const updatedEntry: Entry = {
+      id,
+      date,
+      kind,
+      absenceTypeId: absenceType?.id,
+      location: kind === 'work' ? location : getKindLocation(kind, absenceType),
+      startTime: isSpecialEntry ? '' : startTime,
+      endTime: isSpecialEntry ? '' : endTime,
+      isChildSick: absenceType?.counter === 'sick' ? isChildSick : undefined,
+      isHalfDay: absenceType?.counter === 'vacation' && !isRangeEdit && isHalfDay ? true : undefined,
+      rangeId: isRangeEdit ? entry.rangeId : undefined,
+      deployments: kind === 'onCall' && hasDeployments ? deployments : undefined,
+    };
+
+    onUpdate(updatedEntry, isRangeEdit ? rangeEnd : undefined);
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onCancel}>
+        <div className="modal-content" onClick={e => e.stopPropagation()}>
+            <datalist id="edit-saved-locations-list">
+                {savedLocations.map(loc => <option key={loc.name} value={loc.name} />)}
+            </datalist>
+            <form onSubmit={handleSaveChanges} noValidate>
+                <div className="modal-header">
+                    <h2>Eintrag bearbeiten</h2>
+                    <button type="button" className="close-button" onClick={onCancel} aria-label="Schließen">&times;</button>
+                </div>
+                <div className="modal-body">
+                    <div className="entry-form">
+                         <div className="form-group">
+                            <label htmlFor="edit-date">{range && isSpecialEntry ? 'Von Datum' : 'Datum'}</label>
+                            <input type="date" id="edit-date" name="date" value={formData.date} onChange={handleInputChange} required />
+                        </div>
+                        {range && isSpecialEntry && (
+                            <div className="form-group">
+                                <label htmlFor="edit-rangeEnd">Bis Datum</label>
+                                <input type="date" id="edit-rangeEnd" name="rangeEnd" value={formData.rangeEnd} min={formData.date} onChange={handleInputChange} />
+                            </div>
+                        )}
+                        <div className="form-group">
+                            <label htmlFor="edit-kind">Art</label>
+                            <EntryTypeSelect
+                                id="edit-kind"
+                                kind={formData.kind}
+                                absenceTypeId={formData.absenceTypeId}
+                                absenceTypes={absenceTypes}
+                                onChange={type => setFormData(prev => ({ ...prev, ...type }))}
+                            />
+                        </div>
+                        {formData.kind === 'work' && (
+                            <div className="form-group">
+                                <label htmlFor="edit-location">Ort / Auftrag</label>
+                                <input type="text" id="edit-location" name="location" value={formData.location} onChange={handleInputChange} placeholder="z.B. Büro, Baustelle" list="edit-saved-locations-list" required />
+                            </div>
+                        )}
+
+                        {absenceType?.counter === 'sick' && (
+                            <div className="form-group checkbox-group">
+                                <input type="checkbox" id="edit-isChildSick" name="isChildSick" checked={!!formData.isChildSick} onChange={handleInputChange}/>
+                                <label htmlFor="edit-isChildSick">Auf Kind krank</label>
+                            </div>
+                        )}
+
+                        {absenceType?.counter === 'vacation' && !range && (
+                            <div className="form-group checkbox-group">
+                                <input type="checkbox" id="edit-isHalfDay" name="isHalfDay" checked={!!formData.isHalfDay} onChange={handleInputChange}/>
+                                <label htmlFor="edit-isHalfDay">Halber Tag</label>
+                            </div>
+                        )}
+                        
+                        {formData.kind === 'onCall' && (
+                            <div className="form-group checkbox-group">
+                                <input type="checkbox" id="edit-hasDeployments" name="hasDeployments" checked={formData.hasDeployments} onChange={handleInputChange}/>
+                                <label htmlFor="edit-hasDeployments">Einsätze vorhanden?</label>
+                            </div>
+                        )}
+
+                        <div className="time-input-group">
+                            <div className="form-group">
+                                <label htmlFor="edit-startTime">Von</label>
+                                <input type="time" id="edit-startTime" name="startTime" value={formData.startTime} onChange={handleInputChange} onBlur={handleTimeBlur} disabled={isSpecialEntry} />
+                            </div>
+                            <div className="form-group">
+                                <label htmlFor="edit-endTime">Bis</label>
+                                <input type="time" id="edit-endTime" name="endTime" value={formData.endTime} onChange={handleInputChange} onBlur={handleTimeBlur} disabled={isSpecialEntry} />
+                            </div>
+                        </div>
+                        {!isSpecialEntry && isOvernight(formData.startTime, formData.endTime) && (
+                            <p className="overnight-hint">Endet am Folgetag ({calculateHours(formData.startTime, formData.endTime).toFixed(2)} Std.)</p>
+                        )}
+
+                        {formData.kind === 'onCall' && formData.hasDeployments && (
+                            <div className="deployment-form-section">
+                                <h3>Einsätze</h3>
+                                <div className="deployment-inputs">
+                                    <div className="form-group">
+                                        <label htmlFor="edit-dep-location">Einsatzort</label>
+                                        <input type="text" id="edit-dep-location" name="location" value={currentDeployment.location} onChange={handleDeploymentChange} placeholder="Ort des Einsatzes" list="edit-saved-locations-list" />
+                                    </div>
+                                    <div className="form-group">
+                                        <label htmlFor="edit-dep-startTime">Von</label>
+                                        <input type="time" id="edit-dep-startTime" name="startTime" value={currentDeployment.startTime} onChange={handleDeploymentChange} onBlur={handleDeploymentTimeBlur} />
+                                    </div>
+                                    <div className="form-group">
+                                        <label htmlFor="edit-dep-endTime">Bis</label>
+                                        <input type="time" id="edit-dep-endTime" name="endTime" value={currentDeployment.endTime} onChange={handleDeploymentChange} onBlur={handleDeploymentTimeBlur} />
+                                    </div>
+                                    <button type="button" className="add-deployment-button" onClick={handleAddDeployment}>+</button>
+                                </div>
+                                {formData.deployments.length > 0 && (
+                                    <ul className="new-deployment-list">
+                                        {formData.deployments.map(dep => (
+                                            <li key={dep.id}>
+                                                <span>{dep.location} ({dep.startTime} - {dep.endTime})</span>
+                                                <button type="button" onClick={() => handleRemoveDeployment(dep.id)}>🗑️</button>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                     {error && <p className="error-message" style={{gridColumn: '1 / -1'}}>{error}</p>}
+                </div>
+                <div className="modal-actions">
+                    <button type="button" className="cancel-button" onClick={onCancel}>Abbrechen</button>
+                    <button type="submit" className="submit-button">Speichern</button>
+                </div>
+            </form>
+        </div>
+    </div>
+  );
+};
+
+// --- WORK TIME MODAL COMPONENT ---
+interface WorkTimeModalProps {
+  settings: WorkTimeSettings;
+  onSave: (settings: WorkTimeSettings) => void;
+  onCancel: () => void;
+}
+
+const WorkTimeModal = ({ settings, onSave, onCancel }: WorkTimeModalProps) => {
+  const [models, setModels] = useState<WorkTimeModel[]>(() =>
+    [...settings.models].sort((a, b) => a.validFrom.localeCompare(b.validFrom))
+  );
+  const [countMissingDays, setCountMissingDays] = useState(settings.countMissingDays);
+  const [autoDeductBreaks, setAutoDeductBreaks] = useState(!!settings.autoDeductBreaks);
+  const [federalState, setFederalState] = useState(settings.federalState || '');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleValidFromChange = (id: string, validFrom: string) => {
+    setModels(prev => prev.map(m => (m.id === id ? { ...m, validFrom } : m)));
+  };
+
+  const handleHoursChange = (id: string, weekday: number, value: string) => {
+    setModels(prev => prev.map(m => {
+        if (m.id !== id) return m;
+        const dailyHours = [...m.dailyHours];
+        dailyHours[weekday] = value === '' ? 0 : parseFloat(value);
+        return { ...m, dailyHours };
+    }));
+  };
+
+  const handleAddModel = () => {
+    const lastModel = models[models.length - 1];
+    setModels(prev => [...prev, {
+        id: Date.now().toString(),
+        validFrom: toISODate(new Date()),
+        dailyHours: lastModel ? [...lastModel.dailyHours] : [...DEFAULT_WORK_TIME_SETTINGS.models[0].dailyHours],
+    }]);
+  };
+
+  const handleRemoveModel = (id: string) => {
+    setModels(prev => prev.filter(m => m.id !== id));
+  };
+
+  const handleSaveChanges = (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (models.length === 0) {
+        setError("Es muss mindestens ein Arbeitszeitmodell vorhanden sein.");
+        return;
+    }
+    if (models.some(m => !m.validFrom)) {
+        setError("Bitte für jedes Modell ein Gültig-ab-Datum angeben.");
+        return;
+    }
+    if (new Set(models.map(m => m.validFrom)).size !== models.length) {
+        setError("Zwei Modelle dürfen nicht am selben Tag beginnen.");
+        return;
+    }
+    if (models.some(m => m.dailyHours.some(h => isNaN(h) || h < 0 || h > 24))) {
+        setError("Die Sollstunden müssen zwischen 0 und 24 liegen.");
+        return;
+    }
+
+    onSave({
+        models: [...models].sort((a, b) => a.validFrom.localeCompare(b.validFrom)),
+        countMissingDays,
+        autoDeductBreaks,
+        federalState,
+    });
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onCancel}>
+        <div className="modal-content" onClick={e => e.stopPropagation()}>
+            <form onSubmit={handleSaveChanges} noValidate>
+                <div className="modal-header">
+                    <h2>Arbeitszeitmodell</h2>
+                    <button type="button" className="close-button" onClick={onCancel} aria-label="Schließen">&times;</button>
+                </div>
+                <div className="modal-body">
+                    <p className="modal-hint">
+                        Sollstunden je Wochentag. Ein neues Modell gilt ab seinem Datum, frühere Tage werden weiter mit dem alten Modell berechnet.
+                    </p>
+                    <div className="table-container">
+                        <table className="work-time-table">
+                            <thead>
+                                <tr>
+                                    <th>Gültig ab</th>
+                                    {WEEKDAY_ORDER.map(day => <th key={day}>{WEEKDAY_SHORT_NAMES[day]}</th>)}
+                                    <th>Woche</th>
+                                    <th></th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {models.map(model => (
+                                    <tr key={model.id}>
+                                        <td>
+                                            <input type="date" value={model.validFrom} onChange={e => handleValidFromChange(model.id, e.target.value)} aria-label="Gültig ab" />
+                                        </td>
+                                        {WEEKDAY_ORDER.map(day => (
+                                            <td key={day}>
+                                                <input
+                                                    type="number"
+                                                    min="0"
+                                                    max="24"
+                                                    step="0.25"
+                                                    value={model.dailyHours[day]}
+                                                    onChange={e => handleHoursChange(model.id, day, e.target.value)}
+                                                    aria-label={`Sollstunden ${WEEKDAY_SHORT_NAMES[day]}`}
+                                                />
+                                            </td>
+                                        ))}
+                                        <td>{model.dailyHours.reduce((sum, h) => sum + (h || 0), 0).toFixed(2)}</td>
+                                        <td>
+                                            <button type="button" className="action-button" onClick={() => handleRemoveModel(model.id)} aria-label="Modell löschen" disabled={models.length === 1}>🗑️</button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                    <button type="button" className="secondary-button add-model-button" onClick={handleAddModel}>Neues Modell ab Datum</button>
+                    <div className="form-group">
+                        <label htmlFor="federalState">Bundesland (für Feiertage)</label>
+                        <select id="federalState" value={federalState} onChange={e => setFederalState(e.target.value)}>
+                            <option value="">Nur bundesweite Feiertage</option>
+                            {FEDERAL_STATES.map(state => <option key={state.code} value={state.code}>{state.name}</option>)}
+                        </select>
+                    </div>
+                    <div className="form-group checkbox-group">
+                        <input type="checkbox" id="countMissingDays" checked={countMissingDays} onChange={e => setCountMissingDays(e.target.checked)} />
+                        <label htmlFor="countMissingDays">Arbeitstage ohne Einträge als Minusstunden werten</label>
+                    </div>
+                    <div className="form-group checkbox-group">
+                        <input type="checkbox" id="autoDeductBreaks" checked={autoDeductBreaks} onChange={e => setAutoDeductBreaks(e.target.checked)} />
+                        <label htmlFor="autoDeductBreaks">Fehlende gesetzliche Pausen automatisch abziehen (30 Min. ab 6 Std., 45 Min. ab 9 Std.)</label>
+                    </div>
+                    {error && <p className="error-message">{error}</p>}
+                </div>
+                <div className="modal-actions">
+                    <button type="button" className="cancel-button" onClick={onCancel}>Abbrechen</button>
+                    <button type="submit" className="submit-button">Speichern</button>
+                </div>
+            </form>
+        </div>
+    </div>
+  );
+};
+
+// --- VACATION MODAL COMPONENT ---
+interface VacationModalProps {
+  settings: VacationSettings;
+  onSave: (settings: VacationSettings) => void;
+  onCancel: () => void;
+}
+
+const VacationModal = ({ settings, onSave, onCancel }: VacationModalProps) => {
+  const [formData, setFormData] = useState({
+    annualDays: settings.annualDays.toString(),
+    initialCarryOver: settings.initialCarryOver.toString(),
+    carryOverExpiry: settings.carryOverExpiry ? settings.carryOverExpiry.split('-').reverse().join('.') : '',
+  });
+  const [error, setError] = useState<string | null>(null);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSaveChanges = (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const annualDays = parseFloat(formData.annualDays);
+    const initialCarryOver = formData.initialCarryOver === '' ? 0 : parseFloat(formData.initialCarryOver);
+    if (isNaN(annualDays) || annualDays < 0 || isNaN(initialCarryOver) || initialCarryOver < 0) {
+        setError("Bitte gültige, nicht negative Urlaubstage angeben.");
+        return;
+    }
+
+    let carryOverExpiry = '';
+    if (formData.carryOverExpiry.trim()) {
+        const match = formData.carryOverExpiry.trim().match(/^(\d{1,2})\.(\d{1,2})\.?$/);
+        const day = match ? parseInt(match[1], 10) : 0;
+        const month = match ? parseInt(match[2], 10) : 0;
+        if (!match || month < 1 || month > 12 || day < 1 || day > new Date(2001, month, 0).getDate()) {
+            setError("Bitte den Verfallstag im Format TT.MM. angeben, z.B. 31.03.");
+            return;
+        }
+        carryOverExpiry = `${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`;
+    }
+
+    onSave({ annualDays, initialCarryOver, carryOverExpiry });
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onCancel}>
+        <div className="modal-content confirm-modal" onClick={e => e.stopPropagation()}>
+            <form onSubmit={handleSaveChanges} noValidate>
+                <div className="modal-header">
+                    <h2>Urlaubsanspruch</h2>
+                    <button type="button" className="close-button" onClick={onCancel} aria-label="Schließen">&times;</button>
+                </div>
+                <div className="modal-body">
+                    <div className="entry-form">
+                        <div className="form-group">
+                            <label htmlFor="annualDays">Urlaubstage pro Jahr</label>
+                            <input type="number" id="annualDays" name="annualDays" min="0" step="0.5" value={formData.annualDays} onChange={handleInputChange} />
+                        </div>
+                        <div className="form-group">
+                            <label htmlFor="initialCarryOver">Resturlaub bei Beginn</label>
+                            <input type="number" id="initialCarryOver" name="initialCarryOver" min="0" step="0.5" value={formData.initialCarryOver} onChange={handleInputChange} placeholder="0" />
+                        </div>
+                        <div className="form-group">
+                            <label htmlFor="carryOverExpiry">Resturlaub verfällt nach</label>
+                            <input type="text" id="carryOverExpiry" name="carryOverExpiry" value={formData.carryOverExpiry} onChange={handleInputChange} placeholder="z.B. 31.03. (leer = kein Verfall)" />
+                        </div>
+                    </div>
+                    <p className="modal-hint">
+                        Nicht genommene Tage werden ins Folgejahr übertragen. Übertragene Tage werden zuerst verbraucht.
+                    </p>
+                    {error && <p className="error-message">{error}</p>}
+                </div>
+                <div className="modal-actions">
+                    <button type="button" className="cancel-button" onClick={onCancel}>Abbrechen</button>
+                    <button type="submit" className="submit-button">Speichern</button>
+                </div>
+            </form>
+        </div>
+    </div>
+  );
+};
+
+// --- ON-CALL MODAL COMPONENT ---
+interface OnCallModalProps {
+  settings: OnCallSettings;
+  onSave: (settings: OnCallSettings) => void;
+  onCancel: () => void;
+}
+
+const OnCallModal = ({ settings, onSave, onCancel }: OnCallModalProps) => {
+  const [formData, setFormData] = useState({
+    weekdayAllowance: settings.weekdayAllowance.toString(),
+    weekendAllowance: settings.weekendAllowance.toString(),
+    minCallOutMinutes: settings.minCallOutMinutes.toString(),
+    roundingMinutes: settings.roundingMinutes.toString(),
+  });
+  const [error, setError] = useState<string | null>(null);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSaveChanges = (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const parse = (value: string) => (value.trim() === '' ? 0 : parseFloat(value.replace(',', '.')));
+    const weekdayAllowance = parse(formData.weekdayAllowance);
+    const weekendAllowance = parse(formData.weekendAllowance);
+    if (isNaN(weekdayAllowance) || weekdayAllowance < 0 || isNaN(weekendAllowance) || weekendAllowance < 0) {
+        setError("Bitte gültige, nicht negative Pauschalen angeben.");
+        return;
+    }
+    const minCallOutMinutes = parse(formData.minCallOutMinutes);
+    const roundingMinutes = parse(formData.roundingMinutes);
+    if (![minCallOutMinutes, roundingMinutes].every(minutes => Number.isInteger(minutes) && minutes >= 0 && minutes <= MINUTES_PER_DAY)) {
+        setError("Bitte Mindestzeit und Taktung in ganzen Minuten angeben.");
+        return;
+    }
+
+    onSave({ weekdayAllowance, weekendAllowance, minCallOutMinutes, roundingMinutes });
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onCancel}>
+        <div className="modal-content confirm-modal" onClick={e => e.stopPropagation()}>
+            <form onSubmit={handleSaveChanges} noValidate>
+                <div className="modal-header">
+                    <h2>Bereitschaftsregeln</h2>
+                    <button type="button" className="close-button" onClick={onCancel} aria-label="Schließen">&times;</button>
+                </div>
+                <div className="modal-body">
+                    <div className="entry-form">
+                        <div className="form-group">
+                            <label htmlFor="weekdayAllowance">Pauschale Mo–Fr (€ pro Tag)</label>
+                            <input type="number" id="weekdayAllowance" name="weekdayAllowance" min="0" step="0.01" value={formData.weekdayAllowance} onChange={handleInputChange} placeholder="0" />
+                        </div>
+                        <div className="form-group">
+                            <label htmlFor="weekendAllowance">Pauschale Wochenende/Feiertag (€ pro Tag)</label>
+                            <input type="number" id="weekendAllowance" name="weekendAllowance" min="0" step="0.01" value={formData.weekendAllowance} onChange={handleInputChange} placeholder="0" />
+                        </div>
+                        <div className="form-group">
+                            <label htmlFor="minCallOutMinutes">Mindestzeit pro Einsatz (Min.)</label>
+                            <input type="number" id="minCallOutMinutes" name="minCallOutMinutes" min="0" step="1" value={formData.minCallOutMinutes} onChange={handleInputChange} placeholder="z.B. 60" />
+                        </div>
+                        <div className="form-group">
+                            <label htmlFor="roundingMinutes">Aufrunden auf (Min.)</label>
+                            <input type="number" id="roundingMinutes" name="roundingMinutes" min="0" step="1" value={formData.roundingMinutes} onChange={handleInputChange} placeholder="z.B. 15" />
+                        </div>
+                    </div>
+                    <p className="modal-hint">
+                        Einsätze werden auf angefangene Blöcke aufgerundet und mit mindestens der Mindestzeit als Arbeitszeit angerechnet. 0 bedeutet keine Rundung bzw. keine Mindestzeit.
+                    </p>
+                    {error && <p className="error-message">{error}</p>}
+                </div>
+                <div className="modal-actions">
+                    <button type="button" className="cancel-button" onClick={onCancel}>Abbrechen</button>
+                    <button type="submit" className="submit-button">Speichern</button>
+                </div>
+            </form>
+        </div>
+    </div>
+  );
+};
+
+// --- SURCHARGE MODAL COMPONENT ---
+interface SurchargeModalProps {
+  buckets: SurchargeBucket[];
+  onSave: (buckets: SurchargeBucket[]) => void;
+  onCancel: () => void;
+}
+
+const SurchargeModal = ({ buckets, onSave, onCancel }: SurchargeModalProps) => {
+  const [rows, setRows] = useState(buckets.map(b => ({ ...b, rate: b.rate.toString() })));
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRowChange = (id: string, changes: Partial<(typeof rows)[number]>) => {
+    setRows(prev => prev.map(r => (r.id === id ? { ...r, ...changes } : r)));
+  };
+
+  const handleAddRow = () => {
+    setRows(prev => [...prev, { id: Date.now().toString(), name: '', days: 'all', from: '00:00', to: '00:00', rate: '' }]);
+  };
+
+  const handleRemoveRow = (id: string) => {
+    setRows(prev => prev.filter(r => r.id !== id));
+  };
+
+  const handleSaveChanges = (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (rows.some(r => !r.name.trim())) {
+        setError("Bitte für jeden Zuschlag einen Namen angeben.");
+        return;
+    }
+    if (new Set(rows.map(r => r.name.trim().toLowerCase())).size !== rows.length) {
+        setError("Jeder Name darf nur einmal vorkommen.");
+        return;
+    }
+    if (rows.some(r => !isValidTime(r.from) || !isValidTime(r.to))) {
+        setError("Bitte die Zeiträume im Format HH:MM angeben.");
+        return;
+    }
+    const rates = rows.map(r => parseFloat(r.rate.replace(',', '.')));
+    if (rates.some(rate => isNaN(rate) || rate < 0)) {
+        setError("Bitte für jeden Zuschlag einen Satz von mindestens 0 % angeben.");
+        return;
+    }
+
+    onSave(rows.map((r, index) => ({ ...r, name: r.name.trim(), rate: rates[index] })));
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onCancel}>
+        <div className="modal-content" onClick={e => e.stopPropagation()}>
+            <form onSubmit={handleSaveChanges} noValidate>
+                <div className="modal-header">
+                    <h2>Zuschläge</h2>
+                    <button type="button" className="close-button" onClick={onCancel} aria-label="Schließen">&times;</button>
+                </div>
+                <div className="modal-body">
+                    <p className="modal-hint">
+                        Gearbeitete Stunden und Einsätze werden jedem Zuschlag zugeordnet, dessen Tage und Uhrzeiten sie treffen. Endet der Zeitraum vor dem Beginn, reicht er über Mitternacht; gleiche Zeiten gelten für den ganzen Tag.
+                    </p>
+                    <div className="table-container">
+                        <table className="work-time-table">
+                            <thead>
+                                <tr>
+                                    <th>Name</th>
+                                    <th>Tage</th>
+                                    <th>Von</th>
+                                    <th>Bis</th>
+                                    <th>Satz (%)</th>
+                                    <th></th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {rows.map(row => (
+                                    <tr key={row.id}>
+                                        <td>
+                                            <input type="text" value={row.name} onChange={e => handleRowChange(row.id, { name: e.target.value })} aria-label="Name" />
+                                        </td>
+                                        <td>
+                                            <select value={row.days} onChange={e => handleRowChange(row.id, { days: e.target.value as SurchargeDays })} aria-label={`Tage ${row.name}`}>
+                                                {Object.entries(SURCHARGE_DAY_LABELS).map(([days, label]) => <option key={days} value={days}>{label}</option>)}
+                                            </select>
+                                        </td>
+                                        <td>
+                                            <input type="time" value={row.from} onChange={e => handleRowChange(row.id, { from: e.target.value })} aria-label={`Beginn ${row.name}`} />
+                                        </td>
+                                        <td>
+                                            <input type="time" value={row.to} onChange={e => handleRowChange(row.id, { to: e.target.value })} aria-label={`Ende ${row.name}`} />
+                                        </td>
+                                        <td>
+                                            <input type="number" min="0" step="1" value={row.rate} onChange={e => handleRowChange(row.id, { rate: e.target.value })} aria-label={`Satz ${row.name}`} />
+                                        </td>
+                                        <td>
+                                            <button type="button" className="action-button" onClick={() => handleRemoveRow(row.id)} aria-label="Zuschlag löschen">🗑️</button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                    <button type="button" className="secondary-button add-model-button" onClick={handleAddRow}>Neuer Zuschlag</button>
+                    {error && <p className="error-message">{error}</p>}
+                </div>
+                <div className="modal-actions">
+                    <button type="button" className="cancel-button" onClick={onCancel}>Abbrechen</button>
+                    <button type="submit" className="submit-button">Speichern</button>
+                </div>
+            </form>
+        </div>
+    </div>
+  );
+};
+
+// --- ABSENCE TYPES MODAL COMPONENT ---
+interface AbsenceTypesModalProps {
+  absenceTypes: AbsenceType[];
+  usedTypeIds: Set<string>; // Types referenced by entries can't be removed
+  onSave: (absenceTypes: AbsenceType[]) => void;
+  onCancel: () => void;
+}
+
+const AbsenceTypesModal = ({ absenceTypes, usedTypeIds, onSave, onCancel }: AbsenceTypesModalProps) => {
+  const [types, setTypes] = useState<AbsenceType[]>(absenceTypes);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleTypeChange = (id: string, changes: Partial<AbsenceType>) => {
+    setTypes(prev => prev.map(t => (t.id === id ? { ...t, ...changes } : t)));
+  };
+
+  const handleAddType = () => {
+    setTypes(prev => [...prev, { id: Date.now().toString(), name: '', creditsTarget: true, counter: 'other' }]);
+  };
+
+  const handleRemoveType = (id: string) => {
+    setTypes(prev => prev.filter(t => t.id !== id));
+  };
+
+  const handleSaveChanges = (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (types.some(t => !t.name.trim())) {
+        setError("Bitte für jede Abwesenheitsart einen Namen angeben.");
+        return;
+    }
+    if (new Set(types.map(t => t.name.trim().toLowerCase())).size !== types.length) {
+        setError("Jeder Name darf nur einmal vorkommen.");
+        return;
+    }
+
+    onSave(types.map(t => ({ ...t, name: t.name.trim() })));
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onCancel}>
+        <div className="modal-content" onClick={e => e.stopPropagation()}>
+            <form onSubmit={handleSaveChanges} noValidate>
+                <div className="modal-header">
+                    <h2>Abwesenheitsarten</h2>
+                    <button type="button" className="close-button" onClick={onCancel} aria-label="Schließen">&times;</button>
+                </div>
+                <div className="modal-body">
+                    <p className="modal-hint">
+                        Mit Sollgutschrift gilt die Sollzeit des Tages als erfüllt. Ohne Gutschrift (z.B. Gleittag) wird sie vom Überstundenkonto abgezogen.
+                    </p>
+                    <div className="table-container">
+                        <table className="work-time-table">
+                            <thead>
+                                <tr>
+                                    <th>Name</th>
+                                    <th>Sollgutschrift</th>
+                                    <th>Zählt als</th>
+                                    <th></th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {types.map(type => (
+                                    <tr key={type.id}>
+                                        <td>
+                                            <input type="text" value={type.name} onChange={e => handleTypeChange(type.id, { name: e.target.value })} aria-label="Name" />
+                                        </td>
+                                        <td>
+                                            <input type="checkbox" checked={type.creditsTarget} onChange={e => handleTypeChange(type.id, { creditsTarget: e.target.checked })} aria-label={`Sollgutschrift ${type.name}`} />
+                                        </td>
+                                        <td>
+                                            <select value={type.counter} onChange={e => handleTypeChange(type.id, { counter: e.target.value as AbsenceType['counter'] })} aria-label={`Zähler ${type.name}`}>
+                                                {Object.entries(ABSENCE_COUNTER_LABELS).map(([counter, label]) => <option key={counter} value={counter}>{label}</option>)}
+                                            </select>
+                                        </td>
+                                        <td>
+                                            <button
+                                                type="button"
+                                                className="action-button"
+                                                onClick={() => handleRemoveType(type.id)}
+                                                aria-label="Abwesenheitsart löschen"
+                                                title={usedTypeIds.has(type.id) ? 'Wird von Einträgen verwendet' : undefined}
+                                                disabled={type.isBuiltIn || usedTypeIds.has(type.id)}
+                                            >🗑️</button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                    <button type="button" className="secondary-button add-model-button" onClick={handleAddType}>Neue Abwesenheitsart</button>
+                    {error && <p className="error-message">{error}</p>}
+                </div>
+                <div className="modal-actions">
+                    <button type="button" className="cancel-button" onClick={onCancel}>Abbrechen</button>
+                    <button type="submit" className="submit-button">Speichern</button>
+                </div>
+            </form>
         </div>
-        <div className="modal-actions">
-          <button type="button" className="cancel-button" onClick={onCancel}>{cancelText}</button>
-          <button type="button" className={`submit-button ${confirmVariant === 'danger' ? 'danger' : ''}`} onClick={onConfirm}>
-            {confirmText}
-          </button>
+    </div>
+  );
+};
+
+// --- IMPORT MODAL COMPONENT ---
+interface ImportModalProps {
+  data: ImportData;
+  currentEntries: Entry[];
+  absenceTypes: AbsenceType[];
+  isDateLocked: (date: string) => boolean;
+  onImport: (mode: ImportMode, entries: Entry[]) => void;
+  onCancel: () => void;
+}
+
+const ImportModal = ({ data, currentEntries, absenceTypes, isDateLocked, onImport, onCancel }: ImportModalProps) => {
+  // A month file holds a single month, so replacing with it would drop all other months.
+  const [mode, setMode] = useState<ImportMode>(data.reportMonth ? 'merge' : 'replace');
+  // Ids of conflicting entries for which the version from the file is taken.
+  const [takeImported, setTakeImported] = useState<Set<string>>(new Set());
+  // Merging leaves submitted months alone, on both sides of a conflict.
+  const lockedCount = useMemo(() => data.entries.filter(e => isDateLocked(e.date)).length, [data.entries, isDateLocked]);
+  const plan = useMemo(() => {
+    const merge = planMerge(currentEntries, data.entries.filter(e => !isDateLocked(e.date)));
+    return { ...merge, conflicts: merge.conflicts.filter(c => !isDateLocked(c.current.date)) };
+  }, [currentEntries, data.entries, isDateLocked]);
+  const typesForLabels = useMemo(() => [...absenceTypes, ...(data.absenceTypes || [])], [absenceTypes, data.absenceTypes]);
+
+  const handleResolutionChange = (id: string, useImported: boolean) => {
+    setTakeImported(prev => {
+        const next = new Set(prev);
+        if (useImported) next.add(id); else next.delete(id);
+        return next;
+    });
+  };
+
+  const handleImport = () => {
+    if (mode !== 'merge') {
+        onImport(mode, data.entries);
+        return;
+    }
+    const importedById = new Map(plan.conflicts.map(c => [c.imported.id, c.imported]));
+    const merged = currentEntries.map(e => (takeImported.has(e.id) ? importedById.get(e.id) as Entry : e));
+    onImport(mode, [...plan.added, ...merged]);
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onCancel}>
+        <div className="modal-content" onClick={e => e.stopPropagation()}>
+            <div className="modal-header">
+                <h2>Datei laden</h2>
+                <button type="button" className="close-button" onClick={onCancel} aria-label="Schließen">&times;</button>
+            </div>
+            <div className="modal-body">
+                <p>
+                    {`„${data.fileName}“ enthält ${data.entries.length} gültige ${data.entries.length === 1 ? 'Eintrag' : 'Einträge'}.`}
+                    {data.version < EXPORT_FORMAT_VERSION && ' Die Datei hat ein älteres Format und wird beim Laden umgewandelt.'}
+                </p>
+                {data.issues.length > 0 && (
+                    <div className="import-issues">
+                        <p>{`${data.issues.length} fehlerhafte ${data.issues.length === 1 ? 'Eintrag wird' : 'Einträge werden'} übersprungen:`}</p>
+                        <ul>
+                            {data.issues.map(issue => (
+                                <li key={issue.index}>
+                                    <strong>{`Eintrag ${issue.index + 1}${issue.label ? ` (${issue.label})` : ''}:`}</strong> {issue.errors.join(' ')}
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+                <div className="import-mode">
+                    <label>
+                        <input type="radio" name="importMode" checked={mode === 'replace'} onChange={() => setMode('replace')} disabled={!!data.reportMonth} />
+                        Ersetzen
+                    </label>
+                    <label>
+                        <input type="radio" name="importMode" checked={mode === 'merge'} onChange={() => setMode('merge')} />
+                        Zusammenführen
+                    </label>
+                    <label>
+                        <input type="radio" name="importMode" checked={mode === 'profile'} onChange={() => setMode('profile')} />
+                        Als neues Profil
+                    </label>
+                </div>
+                {data.reportMonth && (
+                    <p className="modal-hint">
+                        {`Die Datei ist eine Monatsdatei für ${new Intl.DateTimeFormat('de-DE', { month: 'long', year: 'numeric' }).format(parseISODate(`${data.reportMonth}-01`))} und kann den Datenbestand nicht ersetzen. Für alle Daten bitte eine Sicherung laden.`}
+                    </p>
+                )}
+                {mode === 'replace' && (
+                    <p className="modal-hint">
+                        {`Die ${currentEntries.length} vorhandenen Einträge, der Name, die Orte, alle Einstellungen und die Abgaben werden durch den Inhalt der Datei ersetzt.`}
+                    </p>
+                )}
+                {mode === 'profile' && (
+                    <p className="modal-hint">
+                        {`Ein neues Profil${data.employeeName ? ` „${data.employeeName}“` : ''} wird mit dem Inhalt der Datei angelegt. Das aktuelle Profil bleibt unverändert.`}
+                    </p>
+                )}
+                {mode === 'merge' && (
+                    <>
+                        <p className="modal-hint">
+                            {`${plan.added.length} neue Einträge werden hinzugefügt, ${plan.duplicates.length} doppelte übersprungen. Name und Einstellungen bleiben unverändert, neue Orte und Überstundenbuchungen werden ergänzt.`}
+                            {lockedCount > 0 && ` ${lockedCount} ${lockedCount === 1 ? 'Eintrag liegt' : 'Einträge liegen'} in abgegebenen Monaten und ${lockedCount === 1 ? 'wird' : 'werden'} nicht übernommen.`}
+                        </p>
+                        {plan.conflicts.length > 0 && (
+                            <div className="table-container">
+                                <table className="work-time-table import-conflicts">
+                                    <thead>
+                                        <tr>
+                                            <th>Datum</th>
+                                            <th>Vorhanden</th>
+                                            <th>Aus der Datei</th>
+                                            <th>Übernehmen</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {plan.conflicts.map(({ current, imported }) => (
+                                            <tr key={current.id}>
+                                                <td>{formatDate(current.date)}{imported.date !== current.date && ` / ${formatDate(imported.date)}`}</td>
+                                                <td>{describeEntry(current, typesForLabels)}</td>
+                                                <td>{describeEntry(imported, typesForLabels)}</td>
+                                                <td>
+                                                    <select
+                                                        value={takeImported.has(current.id) ? 'imported' : 'current'}
+                                                        onChange={e => handleResolutionChange(current.id, e.target.value === 'imported')}
+                                                        aria-label="Version wählen"
+                                                    >
+                                                        <option value="current">Vorhanden</option>
+                                                        <option value="imported">Aus der Datei</option>
+                                                    </select>
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                    </>
+                )}
+            </div>
+            <div className="modal-actions">
+                <button type="button" className="cancel-button" onClick={onCancel}>Abbrechen</button>
+                <button
+                    type="button"
+                    className={`submit-button ${mode === 'replace' ? 'danger' : ''}`}
+                    onClick={handleImport}
+                    disabled={data.entries.length === 0 && data.issues.length > 0}
+                >
+                    {{ replace: 'Ersetzen', merge: 'Zusammenführen', profile: 'Profil anlegen' }[mode]}
+                </button>
+            </div>
         </div>
-      </div>
     </div>
   );
 };
 
+// --- CSV IMPORT MODAL COMPONENT ---
+interface CsvImportModalProps {
+  fileName: string;
+  rows: string[][];
+  currentEntries: Entry[];
+  absenceTypes: AbsenceType[];
+  onImport: (entries: Entry[], duplicateCount: number) => void;
+  onCancel: () => void;
+}
 
-// --- EDIT MODAL COMPONENT ---
-interface EditModalProps {
-  entry: Entry;
-  onUpdate: (updatedEntry: Entry) => void;
+const CsvImportModal = ({ fileName, rows, currentEntries, absenceTypes, onImport, onCancel }: CsvImportModalProps) => {
+  const [mapping, setMapping] = useState<CsvMapping>(() => guessCsvMapping(rows));
+  const [idBase] = useState(() => Date.now().toString());
+  const convertedRows = useMemo(() => convertCsvRows(rows, mapping, absenceTypes, idBase), [rows, mapping, absenceTypes, idBase]);
+  const importedEntries = useMemo(() => convertedRows.flatMap(row => (row.entry ? [row.entry] : [])), [convertedRows]);
+  const plan = useMemo(() => planMerge(currentEntries, importedEntries), [currentEntries, importedEntries]);
+  const invalidRows = convertedRows.filter(row => row.errors.length > 0);
+  const columnCount = Math.max(0, ...rows.map(row => row.length));
+
+  const handleColumnChange = (field: CsvField, column: number) => {
+    setMapping(prev => ({ ...prev, columns: { ...prev.columns, [field]: column } }));
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onCancel}>
+        <div className="modal-content csv-import-modal" onClick={e => e.stopPropagation()}>
+            <div className="modal-header">
+                <h2>CSV importieren</h2>
+                <button type="button" className="close-button" onClick={onCancel} aria-label="Schließen">&times;</button>
+            </div>
+            <div className="modal-body">
+                <p className="modal-hint">{`„${fileName}“ enthält ${rows.length} Zeilen. Ordnen Sie die Spalten den Feldern zu.`}</p>
+                <div className="form-group checkbox-group">
+                    <input
+                        type="checkbox"
+                        id="csv-hasHeader"
+                        checked={mapping.hasHeader}
+                        onChange={e => setMapping(prev => ({ ...prev, hasHeader: e.target.checked }))}
+                    />
+                    <label htmlFor="csv-hasHeader">Erste Zeile enthält Spaltennamen</label>
+                </div>
+                <div className="csv-mapping">
+                    {CSV_FIELDS.map(field => (
+                        <div className="form-group" key={field.id}>
+                            <label htmlFor={`csv-${field.id}`}>{field.label}</label>
+                            <select id={`csv-${field.id}`} value={mapping.columns[field.id]} onChange={e => handleColumnChange(field.id, Number(e.target.value))}>
+                                <option value={-1}>— nicht vorhanden —</option>
+                                {Array.from({ length: columnCount }, (_, i) => (
+                                    <option key={i} value={i}>
+                                        {mapping.hasHeader && rows[0][i]?.trim() ? `${getColumnName(i)}: ${rows[0][i].trim()}` : `Spalte ${getColumnName(i)}`}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                    ))}
+                    <div className="form-group">
+                        <label htmlFor="csv-date-format">Datumsformat</label>
+                        <select id="csv-date-format" value={mapping.dateFormat} onChange={e => setMapping(prev => ({ ...prev, dateFormat: e.target.value as CsvDateFormat }))}>
+                            {CSV_DATE_FORMATS.map(format => <option key={format.id} value={format.id}>{format.id}</option>)}
+                        </select>
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="csv-time-format">Zeitformat</label>
+                        <select id="csv-time-format" value={mapping.timeFormat} onChange={e => setMapping(prev => ({ ...prev, timeFormat: e.target.value as CsvTimeFormat }))}>
+                            {CSV_TIME_FORMATS.map(format => <option key={format.id} value={format.id}>{format.label}</option>)}
+                        </select>
+                    </div>
+                </div>
+                <p>
+                    {`${plan.added.length} neue Einträge werden importiert`}
+                    {plan.duplicates.length > 0 && `, ${plan.duplicates.length} bereits vorhandene übersprungen`}
+                    {'.'}
+                </p>
+                {invalidRows.length > 0 && (
+                    <div className="import-issues">
+                        <p>{`${invalidRows.length} fehlerhafte ${invalidRows.length === 1 ? 'Zeile wird' : 'Zeilen werden'} nicht importiert:`}</p>
+                        <ul>
+                            {invalidRows.map(row => (
+                                <li key={row.line}><strong>{`Zeile ${row.line}:`}</strong> {row.errors.join(' ')}</li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+                <div className="table-container">
+                    <table className="work-time-table csv-preview">
+                        <thead>
+                            <tr>
+                                <th>Zeile</th>
+                                <th>Datum</th>
+                                <th>Art</th>
+                                <th>Ort / Auftrag</th>
+                                <th>Von</th>
+                                <th>Bis</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {convertedRows.slice(0, CSV_PREVIEW_ROWS).map(row => {
+                                const item = row.entry || row.deployment;
+                                return (
+                                    <tr key={row.line} className={item ? '' : 'invalid-row'}>
+                                        <td>{row.line}</td>
+                                        {row.entry ? (
+                                            <>
+                                                <td>{formatDate(row.entry.date)}</td>
+                                                <td>{getAbsenceType(row.entry, absenceTypes)?.name || ENTRY_KIND_LABELS[row.entry.kind]}</td>
+                                                <td>{row.entry.kind === 'work' ? row.entry.location : ''}</td>
+                                            </>
+                                        ) : row.deployment ? (
+                                            <>
+                                                <td></td>
+                                                <td>Einsatz</td>
+                                                <td>{row.deployment.location}</td>
+                                            </>
+                                        ) : (
+                                            <td colSpan={5}>{row.errors.join(' ')}</td>
+                                        )}
+                                        {item && (
+                                            <>
+                                                <td>{item.startTime}</td>
+                                                <td>{item.endTime}</td>
+                                            </>
+                                        )}
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+                {convertedRows.length > CSV_PREVIEW_ROWS && (
+                    <p className="modal-hint">{`Vorschau der ersten ${CSV_PREVIEW_ROWS} von ${convertedRows.length} Zeilen.`}</p>
+                )}
+            </div>
+            <div className="modal-actions">
+                <button type="button" className="cancel-button" onClick={onCancel}>Abbrechen</button>
+                <button type="button" className="submit-button" onClick={() => onImport(plan.added, plan.duplicates.length)} disabled={plan.added.length === 0}>
+                    {`${plan.added.length} ${plan.added.length === 1 ? 'Eintrag' : 'Einträge'} importieren`}
+                </button>
+            </div>
+        </div>
+    </div>
+  );
+};
+
+// --- SPREADSHEET EXPORT MODAL COMPONENT ---
+interface SpreadsheetExportModalProps {
+  columns: ExportColumnId[];
+  monthLabel: string;
+  onExport: (format: SpreadsheetFormat, columns: ExportColumnId[]) => void;
+  onCancel: () => void;
+}
+
+const SpreadsheetExportModal = ({ columns, monthLabel, onExport, onCancel }: SpreadsheetExportModalProps) => {
+  const [format, setFormat] = useState<SpreadsheetFormat>('xlsx');
+  const [selectedColumns, setSelectedColumns] = useState<Set<ExportColumnId>>(new Set(columns));
+
+  const handleColumnChange = (id: ExportColumnId, checked: boolean) => {
+    setSelectedColumns(prev => {
+        const next = new Set(prev);
+        if (checked) next.add(id); else next.delete(id);
+        return next;
+    });
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    onExport(format, EXPORT_COLUMNS.filter(c => selectedColumns.has(c.id)).map(c => c.id));
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onCancel}>
+        <div className="modal-content" onClick={e => e.stopPropagation()}>
+            <div className="modal-header">
+                <h2>Als Tabelle exportieren</h2>
+                <button type="button" className="close-button" onClick={onCancel} aria-label="Schließen">&times;</button>
+            </div>
+            <form onSubmit={handleSubmit}>
+                <div className="modal-body">
+                    <p className="modal-hint">
+                        {`Exportiert die Einträge von ${monthLabel} mit je einer Zeile pro Eintrag und Einsatz sowie eine Zusammenfassung des Monats.`}
+                    </p>
+                    <div className="import-mode">
+                        <label>
+                            <input type="radio" name="spreadsheetFormat" checked={format === 'xlsx'} onChange={() => setFormat('xlsx')} />
+                            Excel (.xlsx)
+                        </label>
+                        <label>
+                            <input type="radio" name="spreadsheetFormat" checked={format === 'csv'} onChange={() => setFormat('csv')} />
+                            CSV
+                        </label>
+                    </div>
+                    {format === 'csv' && (
+                        <p className="modal-hint">Einträge und Zusammenfassung werden als zwei CSV-Dateien gespeichert.</p>
+                    )}
+                    <fieldset className="export-columns">
+                        <legend>Spalten</legend>
+                        {EXPORT_COLUMNS.map(column => (
+                            <label key={column.id}>
+                                <input
+                                    type="checkbox"
+                                    checked={selectedColumns.has(column.id)}
+                                    onChange={e => handleColumnChange(column.id, e.target.checked)}
+                                />
+                                {column.header}
+                            </label>
+                        ))}
+                    </fieldset>
+                </div>
+                <div className="modal-actions">
+                    <button type="button" className="cancel-button" onClick={onCancel}>Abbrechen</button>
+                    <button type="submit" className="submit-button" disabled={selectedColumns.size === 0}>Exportieren</button>
+                </div>
+            </form>
+        </div>
+    </div>
+  );
+};
+
+// --- PLAUSIBILITY MODAL COMPONENT ---
+interface PlausibilityModalProps {
+  warnings: PlausibilityWarning[];
+  monthLabel: string;
+  entries: Entry[];
+  onEdit: (entry: Entry) => void;
+  onContinue?: () => void; // Set when the check runs before an export
+  onCancel: () => void;
+}
+
+const PlausibilityModal = ({ warnings, monthLabel, entries, onEdit, onContinue, onCancel }: PlausibilityModalProps) => {
+  const findEntry = (id: string) => entries.find(e => e.id === id || e.deployments?.some(d => d.id === id));
+
+  return (
+    <div className="modal-overlay" onClick={onCancel}>
+        <div className="modal-content" onClick={e => e.stopPropagation()}>
+            <div className="modal-header">
+                <h2>{`Prüfen: ${monthLabel}`}</h2>
+                <button type="button" className="close-button" onClick={onCancel} aria-label="Schließen">&times;</button>
+            </div>
+            <div className="modal-body">
+                {warnings.length === 0 ? (
+                    <p>Keine Auffälligkeiten gefunden.</p>
+                ) : (
+                    <>
+                        <p className="modal-hint">
+                            {`${warnings.length} ${warnings.length === 1 ? 'Auffälligkeit' : 'Auffälligkeiten'} gefunden.`}
+                            {onContinue && ' Bitte vor dem Export prüfen.'}
+                        </p>
+                        <div className="table-container">
+                            <table className="work-time-table plausibility-table">
+                                <thead>
+                                    <tr>
+                                        <th>Datum</th>
+                                        <th>Prüfung</th>
+                                        <th>Hinweis</th>
+                                        <th></th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {warnings.map((warning, index) => {
+                                        const entry = warning.ids.length > 0 ? findEntry(warning.ids[0]) : undefined;
+                                        return (
+                                            <tr key={index}>
+                                                <td>{formatDate(warning.date)}</td>
+                                                <td>{PLAUSIBILITY_CHECK_LABELS[warning.check]}</td>
+                                                <td>{warning.message}</td>
+                                                <td>
+                                                    {entry && (
+                                                        <button type="button" className="action-button" onClick={() => onEdit(entry)} aria-label="Eintrag bearbeiten">✏️</button>
+                                                    )}
+                                                </td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        </div>
+                    </>
+                )}
+            </div>
+            <div className="modal-actions">
+                {onContinue ? (
+                    <>
+                        <button type="button" className="cancel-button" onClick={onCancel}>Abbrechen</button>
+                        <button type="button" className="submit-button" onClick={onContinue}>Trotzdem exportieren</button>
+                    </>
+                ) : (
+                    <button type="button" className="cancel-button" onClick={onCancel}>Schließen</button>
+                )}
+            </div>
+        </div>
+    </div>
+  );
+};
+
+// --- CALENDAR EXPORT MODAL COMPONENT ---
+interface CalendarExportModalProps {
+  monthLabel: string;
+  onExport: (types: IcsEntryType[], onlyReportMonth: boolean) => void;
+  onCancel: () => void;
+}
+
+const CalendarExportModal = ({ monthLabel, onExport, onCancel }: CalendarExportModalProps) => {
+  const [selectedTypes, setSelectedTypes] = useState<Set<IcsEntryType>>(new Set(ICS_ENTRY_TYPES.map(t => t.id)));
+  const [onlyReportMonth, setOnlyReportMonth] = useState(true);
+
+  const handleTypeChange = (id: IcsEntryType, checked: boolean) => {
+    setSelectedTypes(prev => {
+        const next = new Set(prev);
+        if (checked) next.add(id); else next.delete(id);
+        return next;
+    });
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    onExport(ICS_ENTRY_TYPES.filter(t => selectedTypes.has(t.id)).map(t => t.id), onlyReportMonth);
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onCancel}>
+        <div className="modal-content" onClick={e => e.stopPropagation()}>
+            <div className="modal-header">
+                <h2>Als Kalender exportieren</h2>
+                <button type="button" className="close-button" onClick={onCancel} aria-label="Schließen">&times;</button>
+            </div>
+            <form onSubmit={handleSubmit}>
+                <div className="modal-body">
+                    <p className="modal-hint">Arbeit und Einsätze werden zu Terminen mit Uhrzeit, Bereitschaft und Abwesenheiten zu ganztägigen Terminen.</p>
+                    <div className="import-mode">
+                        <label>
+                            <input type="radio" name="calendarRange" checked={onlyReportMonth} onChange={() => setOnlyReportMonth(true)} />
+                            {monthLabel}
+                        </label>
+                        <label>
+                            <input type="radio" name="calendarRange" checked={!onlyReportMonth} onChange={() => setOnlyReportMonth(false)} />
+                            Alle Einträge
+                        </label>
+                    </div>
+                    <fieldset className="export-columns">
+                        <legend>Einträge</legend>
+                        {ICS_ENTRY_TYPES.map(type => (
+                            <label key={type.id}>
+                                <input
+                                    type="checkbox"
+                                    checked={selectedTypes.has(type.id)}
+                                    onChange={e => handleTypeChange(type.id, e.target.checked)}
+                                />
+                                {type.label}
+                            </label>
+                        ))}
+                    </fieldset>
+                </div>
+                <div className="modal-actions">
+                    <button type="button" className="cancel-button" onClick={onCancel}>Abbrechen</button>
+                    <button type="submit" className="submit-button" disabled={selectedTypes.size === 0}>Exportieren</button>
+                </div>
+            </form>
+        </div>
+    </div>
+  );
+};
+
+// --- CALENDAR IMPORT MODAL COMPONENT ---
+interface CalendarImportModalProps {
+  fileName: string;
+  events: IcsEvent[];
+  currentEntries: Entry[];
+  absenceTypes: AbsenceType[];
+  workTimeSettings: WorkTimeSettings;
+  onImport: (entries: Entry[], duplicateCount: number) => void;
+  onCancel: () => void;
+}
+
+const CalendarImportModal = ({ fileName, events, currentEntries, absenceTypes, workTimeSettings, onImport, onCancel }: CalendarImportModalProps) => {
+  const [targetType, setTargetType] = useState<{ kind: EntryKind; absenceTypeId?: string }>({ kind: 'onCall' });
+  const [summaryFilter, setSummaryFilter] = useState('');
+  const [idBase] = useState(() => Date.now().toString());
+
+  const filteredEvents = useMemo(() => {
+    const filter = summaryFilter.trim().toLowerCase();
+    return events.filter(event => event.summary.toLowerCase().includes(filter));
+  }, [events, summaryFilter]);
+  const importedEntries = useMemo(() => {
+    const kind = targetType.kind === 'absence' ? 'absence' : 'onCall';
+    const absenceType = absenceTypes.find(t => t.id === targetType.absenceTypeId);
+    return convertIcsEvents(filteredEvents, kind, absenceType, workTimeSettings, idBase);
+  }, [filteredEvents, targetType, absenceTypes, workTimeSettings, idBase]);
+  const plan = useMemo(() => planMerge(currentEntries, importedEntries), [currentEntries, importedEntries]);
+
+  return (
+    <div className="modal-overlay" onClick={onCancel}>
+        <div className="modal-content" onClick={e => e.stopPropagation()}>
+            <div className="modal-header">
+                <h2>Kalender importieren</h2>
+                <button type="button" className="close-button" onClick={onCancel} aria-label="Schließen">&times;</button>
+            </div>
+            <div className="modal-body">
+                <p className="modal-hint">{`„${fileName}“ enthält ${events.length} ${events.length === 1 ? 'Termin' : 'Termine'}.`}</p>
+                <div className="csv-mapping">
+                    <div className="form-group">
+                        <label htmlFor="ics-target">Eintragen als</label>
+                        <select
+                            id="ics-target"
+                            value={getEntryTypeValue(targetType.kind, targetType.absenceTypeId)}
+                            onChange={e => setTargetType(parseEntryTypeValue(e.target.value))}
+                        >
+                            <option value="onCall">Bereitschaft</option>
+                            <optgroup label="Abwesenheit">
+                                {absenceTypes.map(type => <option key={type.id} value={getEntryTypeValue('absence', type.id)}>{type.name}</option>)}
+                            </optgroup>
+                        </select>
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="ics-filter">Nur Termine mit</label>
+                        <input id="ics-filter" type="text" value={summaryFilter} onChange={e => setSummaryFilter(e.target.value)} placeholder="z.B. Ihr Name" />
+                    </div>
+                </div>
+                <p>
+                    {`${plan.added.length} neue Einträge werden importiert`}
+                    {plan.duplicates.length > 0 && `, ${plan.duplicates.length} bereits vorhandene übersprungen`}
+                    {'.'}
+                </p>
+                {filteredEvents.length > 0 && (
+                    <div className="table-container">
+                        <table className="work-time-table plausibility-table">
+                            <thead>
+                                <tr>
+                                    <th>Termin</th>
+                                    <th>Von</th>
+                                    <th>Bis</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {filteredEvents.map((event, index) => (
+                                    <tr key={`${event.uid}-${index}`}>
+                                        <td>{event.summary}</td>
+                                        <td>{formatDate(event.start)}</td>
+                                        <td>{formatDate(event.end)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+            <div className="modal-actions">
+                <button type="button" className="cancel-button" onClick={onCancel}>Abbrechen</button>
+                <button type="button" className="submit-button" onClick={() => onImport(plan.added, plan.duplicates.length)} disabled={plan.added.length === 0}>
+                    {`${plan.added.length} ${plan.added.length === 1 ? 'Eintrag' : 'Einträge'} importieren`}
+                </button>
+            </div>
+        </div>
+    </div>
+  );
+};
+
+// --- UNLOCK MONTH MODAL COMPONENT ---
+interface UnlockMonthModalProps {
+  monthLabel: string;
+  onUnlock: (reason: string) => void;
+  onCancel: () => void;
+}
+
+const UnlockMonthModal = ({ monthLabel, onUnlock, onCancel }: UnlockMonthModalProps) => {
+  const [reason, setReason] = useState('');
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (reason.trim()) onUnlock(reason.trim());
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onCancel}>
+        <div className="modal-content" onClick={e => e.stopPropagation()}>
+            <div className="modal-header">
+                <h2>{`${monthLabel} entsperren`}</h2>
+                <button type="button" className="close-button" onClick={onCancel} aria-label="Schließen">&times;</button>
+            </div>
+            <form onSubmit={handleSubmit}>
+                <div className="modal-body">
+                    <p className="modal-hint">Die Einträge des Monats können danach wieder geändert werden. Die Begründung wird im Protokoll festgehalten und mit der Datei und dem PDF ausgegeben.</p>
+                    <div className="form-group">
+                        <label htmlFor="unlockReason">Begründung</label>
+                        <textarea id="unlockReason" rows={3} value={reason} onChange={e => setReason(e.target.value)} required autoFocus />
+                    </div>
+                </div>
+                <div className="modal-actions">
+                    <button type="button" className="cancel-button" onClick={onCancel}>Abbrechen</button>
+                    <button type="submit" className="submit-button danger" disabled={!reason.trim()}>Entsperren</button>
+                </div>
+            </form>
+        </div>
+    </div>
+  );
+};
+
+// --- OVERTIME BOOKING MODAL COMPONENT ---
+interface OvertimeBookingModalProps {
+  defaultDate: string;
+  workTimeSettings: WorkTimeSettings;
+  isDateLocked: (date: string) => boolean;
+  onSave: (booking: Omit<OvertimeBooking, 'id'>) => void;
   onCancel: () => void;
-  savedLocations: string[];
 }
 
-const EditModal = ({ entry, onUpdate, onCancel, savedLocations }: EditModalProps) => {
+const OvertimeBookingModal = ({ defaultDate, workTimeSettings, isDateLocked, onSave, onCancel }: OvertimeBookingModalProps) => {
   const [formData, setFormData] = useState({
-    ...entry,
-    hasDeployments: !!entry.deployments && entry.deployments.length > 0,
-    deployments: entry.deployments || [],
+    date: defaultDate,
+    kind: 'timeOff' as OvertimeBooking['kind'],
+    isFullDay: true,
+    hours: '',
+    note: '',
   });
-  const [currentDeployment, setCurrentDeployment] = useState({ location: '', startTime: '', endTime: '' });
   const [error, setError] = useState<string | null>(null);
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { name, value, type, checked } = e.target;
-    setFormData(prev => ({
-        ...prev,
-        [name]: type === 'checkbox' ? checked : value
-    }));
-  };
+  // A full day off takes the day's target, which is 0 on public holidays.
+  const dayTarget = isValidISODate(formData.date) && !getHolidayName(formData.date, workTimeSettings.federalState)
+    ? getTargetHours(formData.date, workTimeSettings.models)
+    : 0;
+  const isFullDay = formData.kind === 'timeOff' && formData.isFullDay;
 
-  const handleTimeBlur = (e: React.FocusEvent<HTMLInputElement>) => {
-    const { name, value } = e.target;
-    if (value) {
-      setFormData(prev => ({ ...prev, [name]: transformTimeShorthand(value) }));
-    }
-  };
+  const handleSaveChanges = (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
 
-  const handleDeploymentChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { name, value } = e.target;
-    setCurrentDeployment(prev => ({ ...prev, [name]: value }));
-  };
-  
-  const handleDeploymentTimeBlur = (e: React.FocusEvent<HTMLInputElement>) => {
-    const { name, value } = e.target;
-    if (value) {
-      setCurrentDeployment(prev => ({ ...prev, [name]: transformTimeShorthand(value) }));
+    if (!isValidISODate(formData.date)) {
+        setError("Bitte ein gültiges Datum angeben.");
+        return;
     }
-  };
-
-
-  const handleAddDeployment = () => {
-    const { location, startTime, endTime } = currentDeployment;
-    if (!location || !startTime || !endTime || calculateHours(startTime, endTime) <= 0) {
-        setError("Bitte für den Einsatz Ort, gültige Start- und Endzeit angeben.");
+    if (isDateLocked(formData.date)) {
+        setError("Der Monat ist abgegeben und gesperrt. Bitte zuerst entsperren.");
+        return;
+    }
+    if (isFullDay && dayTarget <= 0) {
+        setError("An diesem Tag ist keine Sollzeit vorgesehen. Bitte die Stunden angeben.");
+        return;
+    }
+    const hours = isFullDay ? dayTarget : parseFloat(formData.hours.replace(',', '.'));
+    if (isNaN(hours) || hours <= 0) {
+        setError("Bitte eine positive Stundenzahl angeben.");
+        return;
+    }
+    if (formData.kind === 'payout' && !formData.note.trim()) {
+        setError("Bitte für die Auszahlung eine Notiz angeben, z.B. die Abrechnung.");
         return;
     }
-    setError(null);
-    setFormData(prev => ({
-        ...prev,
-        deployments: [...prev.deployments, { id: Date.now().toString(), ...currentDeployment }]
-    }));
-    setCurrentDeployment({ location: '', startTime: '', endTime: '' });
-  };
 
-  const handleRemoveDeployment = (id: string) => {
-    setFormData(prev => ({
-        ...prev,
-        deployments: prev.deployments.filter(d => d.id !== id)
-    }));
+    onSave({ date: formData.date, kind: formData.kind, hours, note: formData.note.trim() });
   };
 
-  const locationLower = formData.location.trim().toLowerCase();
-  const isSpecialEntry = locationLower === 'urlaub' || locationLower === 'krank' || locationLower === 'bereitschaft';
+  return (
+    <div className="modal-overlay" onClick={onCancel}>
+        <div className="modal-content" onClick={e => e.stopPropagation()}>
+            <form onSubmit={handleSaveChanges} noValidate>
+                <div className="modal-header">
+                    <h2>Überstunden buchen</h2>
+                    <button type="button" className="close-button" onClick={onCancel} aria-label="Schließen">&times;</button>
+                </div>
+                <div className="modal-body">
+                    <div className="import-mode">
+                        <label>
+                            <input type="radio" name="bookingKind" checked={formData.kind === 'timeOff'} onChange={() => setFormData(prev => ({ ...prev, kind: 'timeOff' }))} />
+                            {OVERTIME_BOOKING_LABELS.timeOff}
+                        </label>
+                        <label>
+                            <input type="radio" name="bookingKind" checked={formData.kind === 'payout'} onChange={() => setFormData(prev => ({ ...prev, kind: 'payout' }))} />
+                            {OVERTIME_BOOKING_LABELS.payout}
+                        </label>
+                    </div>
+                    <div className="entry-form">
+                        <div className="form-group">
+                            <label htmlFor="bookingDate">Datum</label>
+                            <input type="date" id="bookingDate" value={formData.date} onChange={e => setFormData(prev => ({ ...prev, date: e.target.value }))} />
+                        </div>
+                        {formData.kind === 'timeOff' && (
+                            <div className="form-group checkbox-group">
+                                <input type="checkbox" id="bookingFullDay" checked={formData.isFullDay} onChange={e => setFormData(prev => ({ ...prev, isFullDay: e.target.checked }))} />
+                                <label htmlFor="bookingFullDay">{`Ganzer Tag (${dayTarget.toFixed(2)} Std.)`}</label>
+                            </div>
+                        )}
+                        {!isFullDay && (
+                            <div className="form-group">
+                                <label htmlFor="bookingHours">Stunden</label>
+                                <input type="number" id="bookingHours" min="0" step="0.25" value={formData.hours} onChange={e => setFormData(prev => ({ ...prev, hours: e.target.value }))} />
+                            </div>
+                        )}
+                        <div className="form-group">
+                            <label htmlFor="bookingNote">{formData.kind === 'payout' ? 'Notiz' : 'Notiz (optional)'}</label>
+                            <input type="text" id="bookingNote" value={formData.note} onChange={e => setFormData(prev => ({ ...prev, note: e.target.value }))} />
+                        </div>
+                    </div>
+                    <p className="modal-hint">
+                        {formData.kind === 'timeOff'
+                            ? 'Die freien Stunden gelten als Sollzeit erfüllt und werden vom Überstundenkonto abgezogen.'
+                            : 'Die ausgezahlten Stunden werden vom Überstundenkonto abgezogen.'}
+                    </p>
+                    {error && <p className="error-message">{error}</p>}
+                </div>
+                <div className="modal-actions">
+                    <button type="button" className="cancel-button" onClick={onCancel}>Abbrechen</button>
+                    <button type="submit" className="submit-button">Buchen</button>
+                </div>
+            </form>
+        </div>
+    </div>
+  );
+};
+
+// --- LOCATION DETAILS MODAL COMPONENT ---
+interface LocationDetailsModalProps {
+  location: SavedLocation;
+  onSave: (location: SavedLocation) => void;
+  onCancel: () => void;
+}
+
+const LocationDetailsModal = ({ location, onSave, onCancel }: LocationDetailsModalProps) => {
+  const [formData, setFormData] = useState({
+    customerNumber: location.customerNumber,
+    address: location.address,
+    costCentre: location.costCentre,
+    hourlyRate: location.hourlyRate?.toString() ?? '',
+  });
+  const [error, setError] = useState<string | null>(null);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
 
   const handleSaveChanges = (e: FormEvent) => {
     e.preventDefault();
     setError(null);
-    const { date, location, startTime, endTime, isChildSick, hasDeployments, deployments, id } = formData;
 
-    if (!date || !location) {
-      setError("Datum und Ort/Auftrag sind Pflichtfelder.");
-      return;
-    }
-    
-    if (!isSpecialEntry && (!startTime || !endTime || calculateHours(startTime, endTime) <= 0)) {
-        setError("Bei regulären Einträgen sind eine gültige Start- und Endzeit erforderlich, die eine positive Arbeitszeit ergeben.");
+    const hourlyRate = formData.hourlyRate.trim() === '' ? undefined : parseFloat(formData.hourlyRate.replace(',', '.'));
+    if (hourlyRate !== undefined && (isNaN(hourlyRate) || hourlyRate < 0)) {
+        setError("Bitte einen gültigen, nicht negativen Stundensatz angeben oder das Feld leer lassen.");
         return;
     }
 
-    const updatedEntry: Entry = {
-      id,
-      date,
-      location,
-      startTime: isSpecialEntry ? '' : startTime,
-      endTime: isSpecialEntry ? '' : endTime,
-      isChildSick: locationLower === 'krank' ? isChildSick : undefined,
-      deployments: locationLower === 'bereitschaft' && hasDeployments ? deployments : undefined,
-    };
-
-    onUpdate(updatedEntry);
+    onSave({
+        name: location.name,
+        customerNumber: formData.customerNumber.trim(),
+        address: formData.address.trim(),
+        costCentre: formData.costCentre.trim(),
+        ...(hourlyRate !== undefined ? { hourlyRate } : {}),
+    });
   };
 
   return (
     <div className="modal-overlay" onClick={onCancel}>
-        <div className="modal-content" onClick={e => e.stopPropagation()}>
-            <datalist id="edit-saved-locations-list">
-                {savedLocations.map(loc => <option key={loc} value={loc} />)}
-            </datalist>
+        <div className="modal-content confirm-modal" onClick={e => e.stopPropagation()}>
             <form onSubmit={handleSaveChanges} noValidate>
                 <div className="modal-header">
-                    <h2>Eintrag bearbeiten</h2>
+                    <h2>{location.name}</h2>
                     <button type="button" className="close-button" onClick={onCancel} aria-label="Schließen">&times;</button>
                 </div>
                 <div className="modal-body">
                     <div className="entry-form">
-                         <div className="form-group">
-                            <label htmlFor="edit-date">Datum</label>
-                            <input type="date" id="edit-date" name="date" value={formData.date} onChange={handleInputChange} required />
+                        <div className="form-group">
+                            <label htmlFor="customerNumber">Kundennummer</label>
+                            <input type="text" id="customerNumber" name="customerNumber" value={formData.customerNumber} onChange={handleInputChange} />
                         </div>
                         <div className="form-group">
-                            <label htmlFor="edit-location">Ort / Auftrag</label>
-                            <input type="text" id="edit-location" name="location" value={formData.location} onChange={handleInputChange} placeholder="z.B. Büro, Urlaub, Krank, Bereitschaft" list="edit-saved-locations-list" required />
+                            <label htmlFor="costCentre">Kostenstelle</label>
+                            <input type="text" id="costCentre" name="costCentre" value={formData.costCentre} onChange={handleInputChange} />
                         </div>
-
-                        {locationLower === 'krank' && (
-                            <div className="form-group checkbox-group">
-                                <input type="checkbox" id="edit-isChildSick" name="isChildSick" checked={!!formData.isChildSick} onChange={handleInputChange}/>
-                                <label htmlFor="edit-isChildSick">Auf Kind krank</label>
-                            </div>
-                        )}
-                        
-                        {locationLower === 'bereitschaft' && (
-                            <div className="form-group checkbox-group">
-                                <input type="checkbox" id="edit-hasDeployments" name="hasDeployments" checked={formData.hasDeployments} onChange={handleInputChange}/>
-                                <label htmlFor="edit-hasDeployments">Einsätze vorhanden?</label>
-                            </div>
-                        )}
-
-                        <div className="time-input-group">
-                            <div className="form-group">
-                                <label htmlFor="edit-startTime">Von</label>
-                                <input type="time" id="edit-startTime" name="startTime" value={formData.startTime} onChange={handleInputChange} onBlur={handleTimeBlur} disabled={isSpecialEntry} />
-                            </div>
-                            <div className="form-group">
-                                <label htmlFor="edit-endTime">Bis</label>
-                                <input type="time" id="edit-endTime" name="endTime" value={formData.endTime} onChange={handleInputChange} onBlur={handleTimeBlur} disabled={isSpecialEntry} />
-                            </div>
+                        <div className="form-group">
+                            <label htmlFor="address">Adresse</label>
+                            <textarea id="address" name="address" rows={3} value={formData.address} onChange={handleInputChange} />
+                        </div>
+                        <div className="form-group">
+                            <label htmlFor="hourlyRate">Stundensatz (€)</label>
+                            <input type="number" id="hourlyRate" name="hourlyRate" min="0" step="0.01" value={formData.hourlyRate} onChange={handleInputChange} placeholder="optional" />
                         </div>
-
-                        {locationLower === 'bereitschaft' && formData.hasDeployments && (
-                            <div className="deployment-form-section">
-                                <h3>Einsätze</h3>
-                                <div className="deployment-inputs">
-                                    <div className="form-group">
-                                        <label htmlFor="edit-dep-location">Einsatzort</label>
-                                        <input type="text" id="edit-dep-location" name="location" value={currentDeployment.location} onChange={handleDeploymentChange} placeholder="Ort des Einsatzes" list="edit-saved-locations-list" />
-                                    </div>
-                                    <div className="form-group">
-                                        <label htmlFor="edit-dep-startTime">Von</label>
-                                        <input type="time" id="edit-dep-startTime" name="startTime" value={currentDeployment.startTime} onChange={handleDeploymentChange} onBlur={handleDeploymentTimeBlur} />
-                                    </div>
-                                    <div className="form-group">
-                                        <label htmlFor="edit-dep-endTime">Bis</label>
-                                        <input type="time" id="edit-dep-endTime" name="endTime" value={currentDeployment.endTime} onChange={handleDeploymentChange} onBlur={handleDeploymentTimeBlur} />
-                                    </div>
-                                    <button type="button" className="add-deployment-button" onClick={handleAddDeployment}>+</button>
-                                </div>
-                                {formData.deployments.length > 0 && (
-                                    <ul className="new-deployment-list">
-                                        {formData.deployments.map(dep => (
-                                            <li key={dep.id}>
-                                                <span>{dep.location} ({dep.startTime} - {dep.endTime})</span>
-                                                <button type="button" onClick={() => handleRemoveDeployment(dep.id)}>🗑️</button>
-                                            </li>
-                                        ))}
-                                    </ul>
-                                )}
-                            </div>
-                        )}
                     </div>
-                     {error && <p className="error-message" style={{gridColumn: '1 / -1'}}>{error}</p>}
+                    <p className="modal-hint">Die Angaben erscheinen im Bericht nach Ort / Auftrag. Mit Stundensatz wird dort auch der Betrag berechnet.</p>
+                    {error && <p className="error-message">{error}</p>}
                 </div>
                 <div className="modal-actions">
                     <button type="button" className="cancel-button" onClick={onCancel}>Abbrechen</button>
@@ -322,48 +4316,468 @@ const EditModal = ({ entry, onUpdate, onCancel, savedLocations }: EditModalProps
   );
 };
 
+// --- LOCATION REPORT MODAL COMPONENT ---
+interface LocationReportModalProps {
+  entries: Entry[];
+  dayHoursByDate: Map<string, DayHours>;
+  onCallSettings: OnCallSettings;
+  savedLocations: SavedLocation[];
+  employeeName: string;
+  initialFrom: string; // YYYY-MM-DD
+  initialTo: string; // YYYY-MM-DD
+  onClose: () => void;
+}
+
+const LocationReportModal = ({ entries, dayHoursByDate, onCallSettings, savedLocations, employeeName, initialFrom, initialTo, onClose }: LocationReportModalProps) => {
+  const [from, setFrom] = useState(initialFrom);
+  const [to, setTo] = useState(initialTo);
+  const [selectedLocation, setSelectedLocation] = useState(ALL_LOCATIONS_OPTION);
+
+  const isRangeValid = isValidISODate(from) && isValidISODate(to) && from <= to;
+  const allRows = useMemo(() => {
+    return isRangeValid ? calculateLocationReport(entries, dayHoursByDate, from, to, onCallSettings, savedLocations) : [];
+  }, [entries, dayHoursByDate, from, to, onCallSettings, savedLocations, isRangeValid]);
+  const rows = selectedLocation === ALL_LOCATIONS_OPTION ? allRows : allRows.filter(row => row.location === selectedLocation);
+  const totals = getLocationReportTotals(rows);
+
+  const getFileName = (extension: string) => {
+    const location = selectedLocation ? `_${selectedLocation.replace(/[^\wäöüÄÖÜß-]+/g, '_')}` : '';
+    return `Orte${location}_${from}_${to}.${extension}`;
+  };
+
+  const handleExportPDF = () => {
+    try {
+        createLocationReportPDF(rows, from, to, employeeName).save(getFileName('pdf'));
+    } catch (err) {
+        console.error("PDF Export failed:", err);
+        alert("Entschuldigung, beim Erstellen des PDFs ist ein Fehler aufgetreten.");
+    }
+  };
+
+  const handleExportCSV = () => {
+    downloadBlob(createCSV(getLocationReportSpreadsheetRows(rows)), getFileName('csv'));
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+        <div className="modal-content" onClick={e => e.stopPropagation()}>
+            <div className="modal-header">
+                <h2>Bericht nach Ort / Auftrag</h2>
+                <button type="button" className="close-button" onClick={onClose} aria-label="Schließen">&times;</button>
+            </div>
+            <div className="modal-body">
+                <div className="entry-form">
+                    <div className="form-group">
+                        <label htmlFor="locationReportFrom">Von</label>
+                        <input type="date" id="locationReportFrom" value={from} onChange={e => setFrom(e.target.value)} />
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="locationReportTo">Bis</label>
+                        <input type="date" id="locationReportTo" value={to} onChange={e => setTo(e.target.value)} />
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="locationReportLocation">Ort / Auftrag</label>
+                        <select id="locationReportLocation" value={selectedLocation} onChange={e => setSelectedLocation(e.target.value)}>
+                            <option value={ALL_LOCATIONS_OPTION}>Alle</option>
+                            {allRows.map(row => (
+                                <option key={row.location} value={row.location}>{row.location}</option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
+                {!isRangeValid ? (
+                    <p className="error-message">Bitte einen gültigen Zeitraum wählen.</p>
+                ) : rows.length === 0 ? (
+                    <p>Keine Arbeitszeiten oder Einsätze im Zeitraum.</p>
+                ) : (
+                    <div className="table-container">
+                        <table className="work-time-table location-report-table">
+                            <thead>
+                                <tr>
+                                    <th>Ort / Auftrag</th>
+                                    <th>Tage</th>
+                                    <th>Arbeit</th>
+                                    <th>Einsätze</th>
+                                    <th>Stunden</th>
+                                    <th>Satz</th>
+                                    <th>Betrag</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {rows.map(row => (
+                                    <tr key={row.location}>
+                                        <td>
+                                            {row.location}
+                                            {row.details?.customerNumber && <span className="location-meta">{`Kd.-Nr. ${row.details.customerNumber}`}</span>}
+                                        </td>
+                                        <td>{row.days}</td>
+                                        <td>{row.workHours.toFixed(2)}</td>
+                                        <td>{row.deploymentHours.toFixed(2)}</td>
+                                        <td>{(row.workHours + row.deploymentHours).toFixed(2)}</td>
+                                        <td>{row.details?.hourlyRate !== undefined ? formatCurrency(row.details.hourlyRate) : '-'}</td>
+                                        <td>{row.amount !== undefined ? formatCurrency(row.amount) : '-'}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                            <tfoot>
+                                <tr>
+                                    <td>Summe</td>
+                                    <td></td>
+                                    <td>{totals.workHours.toFixed(2)}</td>
+                                    <td>{totals.deploymentHours.toFixed(2)}</td>
+                                    <td>{(totals.workHours + totals.deploymentHours).toFixed(2)}</td>
+                                    <td></td>
+                                    <td>{totals.amount !== undefined ? formatCurrency(totals.amount) : '-'}</td>
+                                </tr>
+                            </tfoot>
+                        </table>
+                    </div>
+                )}
+                <p className="modal-hint">
+                    Arbeit: Arbeitszeit abzüglich der Pausen des Tages, anteilig nach Dauer auf die Einträge verteilt. Einsätze: angerechnete Zeit nach den Bereitschaftsregeln. Stundensätze und Kundendaten werden bei den gespeicherten Orten gepflegt.
+                </p>
+            </div>
+            <div className="modal-actions">
+                <button type="button" className="cancel-button" onClick={onClose}>Schließen</button>
+                <button type="button" className="submit-button" onClick={handleExportCSV} disabled={rows.length === 0}>Als CSV</button>
+                <button type="button" className="submit-button" onClick={handleExportPDF} disabled={rows.length === 0}>Als PDF</button>
+            </div>
+        </div>
+    </div>
+  );
+};
+
+// --- CHART CARD COMPONENT ---
+interface ChartCardProps {
+  title: string;
+  fileName: string; // Without extension
+  draw: (ctx: CanvasRenderingContext2D, width: number, height: number) => void;
+}
+
+const ChartCard = ({ title, fileName, draw }: ChartCardProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.setTransform(CHART_SCALE, 0, 0, CHART_SCALE, 0, 0);
+    // Solid background and the title are part of the image, so the PNG stands on its own.
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, CHART_WIDTH, CHART_HEIGHT);
+    ctx.font = CHART_TITLE_FONT;
+    ctx.fillStyle = '#343a40';
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+    ctx.fillText(title, 8, 8);
+    ctx.translate(0, CHART_TITLE_HEIGHT);
+    draw(ctx, CHART_WIDTH, CHART_HEIGHT - CHART_TITLE_HEIGHT);
+  }, [title, draw]);
+
+  const handleExport = () => {
+    canvasRef.current?.toBlob(blob => {
+      if (blob) downloadBlob(blob, `${fileName}.png`);
+    }, 'image/png');
+  };
+
+  return (
+    <div className="chart-card">
+        <canvas ref={canvasRef} width={CHART_WIDTH * CHART_SCALE} height={CHART_HEIGHT * CHART_SCALE} role="img" aria-label={title} />
+        <button type="button" className="file-button chart-export-button" onClick={handleExport}>Als PNG</button>
+    </div>
+  );
+};
+
+// --- STATISTICS MODAL COMPONENT ---
+interface StatisticsModalProps {
+  entries: Entry[];
+  dayBalances: Map<string, DayBalance>;
+  overtimeBookings: OvertimeBooking[];
+  baseOvertime: number;
+  initialYear: number;
+  onClose: () => void;
+}
+
+const StatisticsModal = ({ entries, dayBalances, overtimeBookings, baseOvertime, initialYear, onClose }: StatisticsModalProps) => {
+  const [year, setYear] = useState(initialYear);
+
+  const years = useMemo(() => {
+    const found = new Set([initialYear, ...entries.map(e => parseISODate(e.date).getFullYear())]);
+    return [...found].sort((a, b) => b - a);
+  }, [entries, initialYear]);
+
+  const overtimeTrend = useMemo(() => {
+    const { earned, balance } = getOvertimeTrend(dayBalances, overtimeBookings, baseOvertime, year);
+    // Months still ahead have no meaningful balance yet.
+    const today = new Date();
+    const lastMonth = year < today.getFullYear() ? 11 : year > today.getFullYear() ? -1 : today.getMonth();
+    const cut = (values: number[]) => values.map((value, month) => (month <= lastMonth ? value : null));
+    return { earned: cut(earned), balance: cut(balance) };
+  }, [dayBalances, overtimeBookings, baseOvertime, year]);
+  const locationHours = useMemo(() => getHoursByLocation(entries, year), [entries, year]);
+  const weekdayAbsences = useMemo(() => getAbsencesByWeekday(dayBalances, year), [dayBalances, year]);
+  const workTimes = useMemo(() => getAverageWorkTimes(entries, year), [entries, year]);
+
+  const drawOvertime = useCallback((ctx: CanvasRenderingContext2D, width: number, height: number) => {
+    drawLineChart(ctx, width, height, MONTH_SHORT_NAMES, [
+        { label: 'Überstunden im Monat', color: CHART_COLORS[0], values: overtimeTrend.earned },
+        { label: 'Saldo am Monatsende', color: CHART_COLORS[1], values: overtimeTrend.balance },
+    ], formatChartHours);
+  }, [overtimeTrend]);
+  const drawLocations = useCallback((ctx: CanvasRenderingContext2D, width: number, height: number) => {
+    drawBarChart(ctx, width, height, locationHours, CHART_COLORS[0], formatChartHours);
+  }, [locationHours]);
+  const drawAbsences = useCallback((ctx: CanvasRenderingContext2D, width: number, height: number) => {
+    drawColumnChart(ctx, width, height, WEEKDAY_CHART_LABELS, weekdayAbsences, CHART_COLORS[2], formatDays);
+  }, [weekdayAbsences]);
+  const drawWorkTimes = useCallback((ctx: CanvasRenderingContext2D, width: number, height: number) => {
+    drawTimeRangeChart(ctx, width, height, WEEKDAY_CHART_LABELS, workTimes.byWeekday, CHART_COLORS[4]);
+  }, [workTimes]);
+
+  const workTimesTitle = workTimes.overall
+    ? `Ø Beginn und Ende ${minutesToTime(Math.round(workTimes.overall.start))}–${minutesToTime(Math.round(workTimes.overall.end))} (${workTimes.dayCount} Arbeitstage)`
+    : 'Ø Beginn und Ende der Arbeit';
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+        <div className="modal-content statistics-modal" onClick={e => e.stopPropagation()}>
+            <div className="modal-header">
+                <h2>Statistik</h2>
+                <button type="button" className="close-button" onClick={onClose} aria-label="Schließen">&times;</button>
+            </div>
+            <div className="modal-body">
+                <div className="form-group">
+                    <label htmlFor="statisticsYear">Jahr</label>
+                    <select id="statisticsYear" value={year} onChange={e => setYear(parseInt(e.target.value, 10))}>
+                        {years.map(y => (
+                            <option key={y} value={y}>{y}</option>
+                        ))}
+                    </select>
+                </div>
+                <div className="chart-grid">
+                    <ChartCard title={`Überstunden ${year}`} fileName={`Statistik_Ueberstunden_${year}`} draw={drawOvertime} />
+                    <ChartCard title={`Stunden pro Ort ${year} (ohne Pausenabzug)`} fileName={`Statistik_Orte_${year}`} draw={drawLocations} />
+                    <ChartCard title={`Abwesenheitstage nach Wochentag ${year}`} fileName={`Statistik_Abwesenheiten_${year}`} draw={drawAbsences} />
+                    <ChartCard title={`${workTimesTitle} ${year}`} fileName={`Statistik_Arbeitszeiten_${year}`} draw={drawWorkTimes} />
+                </div>
+            </div>
+            <div className="modal-actions">
+                <button type="button" className="cancel-button" onClick={onClose}>Schließen</button>
+            </div>
+        </div>
+    </div>
+  );
+};
+
+// --- STOPWATCH COMPONENT ---
+interface StopwatchProps {
+  timer: RunningTimer | null;
+  onClockIn: (location: string) => void;
+  onClockOut: () => void;
+  onSwitchLocation: (location: string) => void;
+  onTogglePause: () => void;
+}
+
+const Stopwatch = ({ timer, onClockIn, onClockOut, onSwitchLocation, onTogglePause }: StopwatchProps) => {
+  const [location, setLocation] = useState(timer?.location || '');
+  const [now, setNow] = useState(Date.now());
+
+  // Ticks only while a timer is running.
+  useEffect(() => {
+    if (!timer) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [timer]);
+
+  const trimmedLocation = location.trim();
+
+  return (
+    <div className="stopwatch">
+        <div className="stopwatch-controls">
+            <input
+                type="text"
+                value={location}
+                onChange={e => setLocation(e.target.value)}
+                placeholder="Ort / Auftrag"
+                aria-label="Ort für die Zeiterfassung"
+                list="saved-locations-list"
+            />
+            {!timer ? (
+                <button type="button" className="submit-button" onClick={() => onClockIn(trimmedLocation)} disabled={!trimmedLocation}>Kommen</button>
+            ) : (
+                <>
+                    <button type="button" className="secondary-button" onClick={() => onSwitchLocation(trimmedLocation)} disabled={!trimmedLocation || trimmedLocation === timer.location}>Ort wechseln</button>
+                    <button type="button" className="secondary-button" onClick={onTogglePause}>{timer.pauseStartedAt !== undefined ? 'Pause beenden' : 'Pause starten'}</button>
+                    <button type="button" className="submit-button danger" onClick={onClockOut}>Gehen</button>
+                </>
+            )}
+        </div>
+        {timer && (
+            <p className="stopwatch-status" aria-live="polite">
+                <span className="stopwatch-elapsed">{formatElapsed(now - timer.startedAt)}</span>
+                {` ${timer.location} seit ${getTimeOfDay(new Date(timer.startedAt))} Uhr`}
+                {timer.pauseStartedAt !== undefined && (
+                    <span className="stopwatch-pause">{` · Pause ${formatElapsed(now - timer.pauseStartedAt)}`}</span>
+                )}
+            </p>
+        )}
+    </div>
+  );
+};
+
+// --- UNDO TOAST COMPONENT ---
+interface UndoToastProps {
+  id: number; // New for every message shown, so a repeated text restarts the timer
+  message: string;
+  onUndo: () => void;
+  onClose: () => void;
+}
+
+const UndoToast = ({ id, message, onUndo, onClose }: UndoToastProps) => {
+  useEffect(() => {
+    const timer = setTimeout(onClose, UNDO_TOAST_MS);
+    return () => clearTimeout(timer);
+  }, [id, onClose]);
+
+  return (
+    <div className="undo-toast" role="status">
+        <span>{message}</span>
+        <button type="button" onClick={onUndo}>Rückgängig</button>
+        <button type="button" className="undo-toast-close" onClick={onClose} aria-label="Schließen">&times;</button>
+    </div>
+  );
+};
+
+// --- DAY TOTAL ROW COMPONENT ---
+interface DayTotalRowProps {
+  label: string;
+  dayHours: DayHours;
+  warnings: PlausibilityWarning[];
+}
+
+const DayTotalRow = ({ label, dayHours, warnings }: DayTotalRowProps) => {
+  const breakShortfall = dayHours.requiredBreakMinutes - dayHours.breakMinutes;
+
+  return (
+    <tr className="day-total-row">
+        <td data-label="Datum">{label}</td>
+        <td data-label="Ort / Auftrag" colSpan={3}>
+            {`Brutto ${dayHours.gross.toFixed(2)} – Pause ${(dayHours.gross - dayHours.net).toFixed(2)}`}
+            {dayHours.autoDeductedMinutes > 0 && (
+                <span className="break-note">{` (davon ${dayHours.autoDeductedMinutes} Min. autom. Pausenabzug)`}</span>
+            )}
+            {breakShortfall > 0 && (
+                <span className="break-warning">{` ⚠️ Pause zu kurz: ${dayHours.requiredBreakMinutes} Min. erforderlich, ${dayHours.breakMinutes} Min. gebucht`}</span>
+            )}
+            {warnings.map(w => <span key={w.check} className="break-warning">{` ⚠️ ${w.message}`}</span>)}
+        </td>
+        <td data-label="Netto">{dayHours.net.toFixed(2)}</td>
+        <td></td>
+    </tr>
+  );
+};
+
+// --- HOLIDAY ROW COMPONENT ---
+interface HolidayRowProps {
+  holiday: PublicHoliday;
+}
+
+const HolidayRow = ({ holiday }: HolidayRowProps) => (
+    <tr className="holiday-row">
+        <td data-label="Datum">{formatDate(holiday.date)}</td>
+        <td data-label="Ort / Auftrag" colSpan={5}>Feiertag: {holiday.name}</td>
+    </tr>
+);
+
+// --- BOOKING ROW COMPONENT ---
+interface BookingRowProps {
+  booking: OvertimeBooking;
+  isLocked: boolean;
+  onDelete: (id: string) => void;
+}
+
+const BookingRow = ({ booking, isLocked, onDelete }: BookingRowProps) => (
+    <tr className="booking-row">
+        <td data-label="Datum">{formatDate(booking.date)}</td>
+        <td data-label="Ort / Auftrag">{describeOvertimeBooking(booking)}</td>
+        <td data-label="Von">-</td>
+        <td data-label="Bis">-</td>
+        <td data-label="Stunden">{formatHours(-booking.hours)}</td>
+        <td data-label="Aktionen">
+            {isLocked ? (
+                <span className="locked-marker" title="Der Monat ist abgegeben">🔒</span>
+            ) : (
+                <div className="action-buttons">
+                    <button className="action-button" onClick={() => onDelete(booking.id)} aria-label="Buchung löschen">🗑️</button>
+                </div>
+            )}
+        </td>
+    </tr>
+);
+
+// --- WEEK TOTAL ROW COMPONENT ---
+interface WeekTotalRowProps {
+  week: ReportWeek;
+}
+
+const WeekTotalRow = ({ week }: WeekTotalRowProps) => {
+  const overtime = week.workHours - week.targetHours;
+
+  return (
+    <tr className="week-total-row">
+        <td data-label="Datum">{`Summe KW ${week.week}`}</td>
+        <td data-label="Ort / Auftrag" colSpan={3}>
+            {`Ist ${week.workHours.toFixed(2)} – Soll ${week.targetHours.toFixed(2)}`}
+            {week.daysOff > 0 && ` – ${formatDays(week.daysOff)} ${week.daysOff === 1 ? 'Tag' : 'Tage'} frei`}
+        </td>
+        <td data-label="Saldo" className={overtime >= 0 ? 'positive' : 'negative'}>{formatHours(overtime)}</td>
+        <td></td>
+    </tr>
+  );
+};
+
 // --- MAIN APP COMPONENT ---
 const App = () => {
-  const [entries, setEntries] = useState<Entry[]>(() => {
-    try {
-      const savedEntries = localStorage.getItem('timesheetEntries');
-      return savedEntries ? JSON.parse(savedEntries) : [];
-    } catch (error) {
-      console.error("Error reading from localStorage", error);
-      return [];
-    }
-  });
+  // All persisted state starts with its defaults and is filled from IndexedDB on mount.
+  const [entries, setEntries] = useState<Entry[]>([]);
+  const [employeeName, setEmployeeName] = useState<string>('');
+  const [baseOvertime, setBaseOvertime] = useState<number>(0);
+  const [savedLocations, setSavedLocations] = useState<SavedLocation[]>([]);
+  const [workTimeSettings, setWorkTimeSettings] = useState<WorkTimeSettings>(DEFAULT_WORK_TIME_SETTINGS);
+  const [vacationSettings, setVacationSettings] = useState<VacationSettings>(DEFAULT_VACATION_SETTINGS);
+  const [onCallSettings, setOnCallSettings] = useState<OnCallSettings>(DEFAULT_ON_CALL_SETTINGS);
+  const [surchargeBuckets, setSurchargeBuckets] = useState<SurchargeBucket[]>(DEFAULT_SURCHARGE_BUCKETS);
+  const [absenceTypes, setAbsenceTypes] = useState<AbsenceType[]>(DEFAULT_ABSENCE_TYPES);
+  const [runningTimer, setRunningTimer] = useState<RunningTimer | null>(null);
+  const [overtimeBookings, setOvertimeBookings] = useState<OvertimeBooking[]>([]);
+  const [monthLocks, setMonthLocks] = useState<MonthLock[]>([]);
+  const [auditLog, setAuditLog] = useState<AuditLogEvent[]>([]);
+  const [exportColumns, setExportColumns] = useState<ExportColumnId[]>(DEFAULT_EXPORT_COLUMNS);
+  const [profiles, setProfiles] = useState<Profile[]>([{ id: DEFAULT_PROFILE_ID, name: '' }]);
+  const [activeProfileId, setActiveProfileId] = useState(DEFAULT_PROFILE_ID);
 
-  const [employeeName, setEmployeeName] = useState<string>(() => {
-    try {
-      return localStorage.getItem('employeeName') || '';
-    } catch (error) {
-      console.error("Error reading employee name from localStorage", error);
-      return '';
-    }
-  });
-  
-  const [baseOvertime, setBaseOvertime] = useState<number>(() => {
-    try {
-        const saved = localStorage.getItem('baseOvertime');
-        return saved ? parseFloat(saved) : 0;
-    } catch (error) {
-        console.error("Error reading base overtime from localStorage", error);
-        return 0;
-    }
-  });
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const dbRef = useRef<IDBDatabase | null>(null);
+  // What IndexedDB holds, so only changed entries and settings are written.
+  const persistedRef = useRef<{ entries: Entry[]; settings: Partial<PersistedSettings> }>({ entries: [], settings: {} });
+  const needsFullWriteRef = useRef(false);
 
-  const [savedLocations, setSavedLocations] = useState<string[]>(() => {
-    try {
-      const saved = localStorage.getItem('savedLocations');
-      return saved ? JSON.parse(saved) : [];
-    } catch (error) {
-      console.error("Error reading saved locations from localStorage", error);
-      return [];
-    }
-  });
-  
   const [editingEntry, setEditingEntry] = useState<Entry | null>(null);
+  const [isVacationModalOpen, setIsVacationModalOpen] = useState(false);
+  const [isWorkTimeModalOpen, setIsWorkTimeModalOpen] = useState(false);
+  const [isOnCallModalOpen, setIsOnCallModalOpen] = useState(false);
+  const [isSurchargeModalOpen, setIsSurchargeModalOpen] = useState(false);
+  const [isStatisticsOpen, setIsStatisticsOpen] = useState(false);
+  const [isAbsenceTypesModalOpen, setIsAbsenceTypesModalOpen] = useState(false);
+  const [importData, setImportData] = useState<ImportData | null>(null);
+  const [csvImport, setCsvImport] = useState<{ fileName: string; rows: string[][] } | null>(null);
+  const [calendarImport, setCalendarImport] = useState<{ fileName: string; events: IcsEvent[] } | null>(null);
+  const [isCalendarExportOpen, setIsCalendarExportOpen] = useState(false);
+  const [isSpreadsheetModalOpen, setIsSpreadsheetModalOpen] = useState(false);
+  const [isUnlockModalOpen, setIsUnlockModalOpen] = useState(false);
+  const [isBookingModalOpen, setIsBookingModalOpen] = useState(false);
+  const [plausibilityReview, setPlausibilityReview] = useState<{ onContinue?: () => void } | null>(null);
   const [confirmation, setConfirmation] = useState<{
     isOpen: boolean;
     title: string;
@@ -382,7 +4796,6 @@ const App = () => {
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const settingsMenuRef = useRef<HTMLDivElement>(null);
-  const isInitialMount = useRef(true);
   const locationInputRef = useRef<HTMLInputElement>(null);
 
   const [saveIndicatorText, setSaveIndicatorText] = useState<string>('Alle Änderungen werden automatisch gespeichert.');
@@ -392,20 +4805,28 @@ const App = () => {
 
   const initialNewEntryState = {
     date: new Date().toISOString().split('T')[0],
+    kind: 'work' as EntryKind,
+    absenceTypeId: undefined,
     location: '',
     startTime: '',
     endTime: '',
     isChildSick: false,
+    isHalfDay: false,
+    endDate: '',
     hasDeployments: false,
     deployments: [],
   };
 
   const [newEntry, setNewEntry] = useState<{
     date: string;
+    kind: EntryKind;
+    absenceTypeId?: string;
     location: string;
     startTime: string;
     endTime: string;
     isChildSick: boolean;
+    isHalfDay: boolean;
+    endDate: string; // Last day of a range of special entries, '' for a single day
     hasDeployments: boolean;
     deployments: Deployment[];
   }>(initialNewEntryState);
@@ -416,29 +4837,184 @@ const App = () => {
     endTime: '',
   });
 
+  // Undo/redo over entries, overtime bookings, saved locations, name and base overtime. Changes are recorded
+  // by watching the state, so every mutation is covered without extra calls.
+  const [undoStack, setUndoStack] = useState<HistorySnapshot[]>([]);
+  const [redoStack, setRedoStack] = useState<HistorySnapshot[]>([]);
+  const [undoToast, setUndoToast] = useState<{ id: number; message: string } | null>(null);
+  const currentSnapshotRef = useRef<HistorySnapshot>({ entries, overtimeBookings, savedLocations, employeeName, baseOvertime });
+  const isRestoringRef = useRef(false);
+  const lastTextEditRef = useRef(0);
+
   const [newSavedLocation, setNewSavedLocation] = useState('');
   const [copiedLocation, setCopiedLocation] = useState<string | null>(null);
+  const [editingLocation, setEditingLocation] = useState<SavedLocation | null>(null);
+  const [isLocationReportOpen, setIsLocationReportOpen] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Shows the data of a profile. `stored` is what IndexedDB holds for it, so the
+  // save effect only writes the difference.
+  const showProfile = (profileId: string, data: { entries: Entry[]; settings: Partial<PersistedSettings> }, stored = data) => {
+    persistedRef.current = stored;
+    isRestoringRef.current = true; // Loading is not an undoable change
+    setActiveProfileId(profileId);
+    setEntries(data.entries);
+    setEmployeeName(data.settings.employeeName ?? '');
+    // Plain names are converted here and stored with details on the next save.
+    setSavedLocations((data.settings.savedLocations ?? []).map(l => (typeof l === 'string' ? createSavedLocation(l) : l)));
+    setBaseOvertime(data.settings.baseOvertime ?? 0);
+    setWorkTimeSettings(data.settings.workTimeSettings ?? DEFAULT_WORK_TIME_SETTINGS);
+    setVacationSettings(data.settings.vacationSettings ?? DEFAULT_VACATION_SETTINGS);
+    setOnCallSettings(data.settings.onCallSettings ?? DEFAULT_ON_CALL_SETTINGS);
+    setSurchargeBuckets(data.settings.surchargeBuckets ?? DEFAULT_SURCHARGE_BUCKETS);
+    setAbsenceTypes(data.settings.absenceTypes ?? DEFAULT_ABSENCE_TYPES);
+    setRunningTimer(data.settings.runningTimer ?? null);
+    setOvertimeBookings(data.settings.overtimeBookings ?? []);
+    setMonthLocks(data.settings.monthLocks ?? []);
+    setAuditLog(data.settings.auditLog ?? []);
+  };
+
+  useEffect(() => {
+    openDatabase()
+      .then(async db => {
+        dbRef.current = db;
+        const { profileId, ...data } = await loadPersistedData(db);
+        showProfile(profileId, data);
+        setProfiles(data.settings.profiles ?? [{ id: profileId, name: data.settings.employeeName ?? '' }]);
+        setExportColumns(data.settings.exportColumns ?? DEFAULT_EXPORT_COLUMNS);
+      })
+      .catch(error => {
+        console.error("Error opening the database", error);
+        setStorageError(`Die gespeicherten Daten konnten nicht geladen werden: ${describeStorageError(error)} Änderungen werden nicht gespeichert.`);
+      })
+      .finally(() => setIsLoaded(true));
+  }, []);
+
+  // Writes only what changed since the last write. After a failed write the next one
+  // replaces the whole database, so no change is lost once writing works again.
   useEffect(() => {
-    if (isInitialMount.current) {
-        isInitialMount.current = false;
+    const db = dbRef.current;
+    if (!isLoaded || !db) return;
+
+    const settings: PersistedSettings = { profiles, activeProfileId, employeeName, savedLocations, baseOvertime, workTimeSettings, vacationSettings, onCallSettings, surchargeBuckets, absenceTypes, runningTimer, overtimeBookings, monthLocks, auditLog, exportColumns };
+    const previous = persistedRef.current;
+    const replaceAll = needsFullWriteRef.current;
+    const previousById = new Map(previous.entries.map(e => [e.id, e]));
+    const currentIds = new Set(entries.map(e => e.id));
+    const changes: PersistedChanges = {
+        putEntries: replaceAll ? entries : entries.filter(e => previousById.get(e.id) !== e),
+        deleteEntryIds: replaceAll ? [] : previous.entries.filter(e => !currentIds.has(e.id)).map(e => e.id),
+        settings: Object.fromEntries(Object.entries(settings).filter(([key, value]) => replaceAll || previous.settings[key as keyof PersistedSettings] !== value)),
+        replaceAll,
+    };
+    if (changes.putEntries.length === 0 && changes.deleteEntryIds.length === 0 && Object.keys(changes.settings).length === 0) {
         return;
     }
 
-    try {
-      localStorage.setItem('timesheetEntries', JSON.stringify(entries));
-      localStorage.setItem('employeeName', employeeName);
-      localStorage.setItem('savedLocations', JSON.stringify(savedLocations));
-      localStorage.setItem('baseOvertime', baseOvertime.toString());
-      setSaveIndicatorText('Gespeichert!');
-      const timer = setTimeout(() => setSaveIndicatorText('Alle Änderungen werden automatisch gespeichert.'), 2000);
-      return () => clearTimeout(timer); // Cleanup timer on unmount or re-run
-    } catch (error) {
-      console.error("Error writing to localStorage", error);
-      setSaveIndicatorText('Speicherfehler!');
-    }
-  }, [entries, employeeName, savedLocations, baseOvertime]);
+    persistedRef.current = { entries, settings };
+    needsFullWriteRef.current = false;
+    writePersistedChanges(db, activeProfileId, changes)
+      .then(() => {
+        setStorageError(null);
+        setSaveIndicatorText('Gespeichert!');
+      })
+      .catch(error => {
+        console.error("Error writing to IndexedDB", error);
+        needsFullWriteRef.current = true;
+        setStorageError(`Speichern fehlgeschlagen: ${describeStorageError(error)} Die letzten Änderungen sind nicht gesichert. Bitte eine Sicherung herunterladen.`);
+        setSaveIndicatorText('Speicherfehler!');
+      });
+  }, [isLoaded, profiles, activeProfileId, entries, employeeName, savedLocations, baseOvertime, workTimeSettings, vacationSettings, onCallSettings, surchargeBuckets, absenceTypes, runningTimer, overtimeBookings, monthLocks, auditLog, exportColumns]);
+
+  // The switcher lists profiles under the employee name entered in them.
+  useEffect(() => {
+    setProfiles(prev => {
+        if (prev.find(p => p.id === activeProfileId)?.name === employeeName) return prev;
+        return prev.map(p => (p.id === activeProfileId ? { ...p, name: employeeName } : p));
+    });
+  }, [activeProfileId, employeeName]);
+
+  useEffect(() => {
+    if (saveIndicatorText !== 'Gespeichert!') return;
+    const timer = setTimeout(() => setSaveIndicatorText('Alle Änderungen werden automatisch gespeichert.'), 2000);
+    return () => clearTimeout(timer); // Cleanup timer on unmount or re-run
+  }, [saveIndicatorText]);
+
+  useEffect(() => {
+    const previous = currentSnapshotRef.current;
+    if (previous.entries === entries && previous.overtimeBookings === overtimeBookings && previous.savedLocations === savedLocations
+        && previous.employeeName === employeeName && previous.baseOvertime === baseOvertime) {
+        return;
+    }
+    currentSnapshotRef.current = { entries, overtimeBookings, savedLocations, employeeName, baseOvertime };
+
+    if (isRestoringRef.current) {
+        isRestoringRef.current = false;
+        return;
+    }
+
+    const isTextEdit = previous.entries === entries && previous.overtimeBookings === overtimeBookings && previous.savedLocations === savedLocations;
+    const now = Date.now();
+    const isMerged = isTextEdit && now - lastTextEditRef.current < HISTORY_MERGE_MS;
+    lastTextEditRef.current = isTextEdit ? now : 0;
+    if (isMerged) return;
+
+    setUndoStack(prev => [...prev, previous].slice(-HISTORY_LIMIT));
+    setRedoStack([]);
+  }, [entries, overtimeBookings, savedLocations, employeeName, baseOvertime]);
+
+  const lockedMonths = useMemo(() => new Set(monthLocks.map(l => l.month)), [monthLocks]);
+  const isDateLocked = useCallback((date: string) => lockedMonths.has(date.slice(0, 7)), [lockedMonths]);
+
+  const restoreSnapshot = (snapshot: HistorySnapshot) => {
+    isRestoringRef.current = true;
+    lastTextEditRef.current = 0;
+    // Undo never reaches into submitted months; their entries and bookings stay as they are.
+    setEntries([...snapshot.entries.filter(e => !isDateLocked(e.date)), ...entries.filter(e => isDateLocked(e.date))]);
+    setOvertimeBookings([...snapshot.overtimeBookings.filter(b => !isDateLocked(b.date)), ...overtimeBookings.filter(b => isDateLocked(b.date))]);
+    setSavedLocations(snapshot.savedLocations);
+    setEmployeeName(snapshot.employeeName);
+    setBaseOvertime(snapshot.baseOvertime);
+  };
+
+  const handleUndo = () => {
+    const snapshot = undoStack[undoStack.length - 1];
+    if (!snapshot) return;
+    setUndoStack(prev => prev.slice(0, -1));
+    setRedoStack(prev => [...prev, currentSnapshotRef.current]);
+    restoreSnapshot(snapshot);
+    setUndoToast(null);
+  };
+
+  const handleRedo = () => {
+    const snapshot = redoStack[redoStack.length - 1];
+    if (!snapshot) return;
+    setRedoStack(prev => prev.slice(0, -1));
+    setUndoStack(prev => [...prev, currentSnapshotRef.current]);
+    restoreSnapshot(snapshot);
+  };
+
+  const showUndoToast = useCallback((message: string) => setUndoToast(prev => ({ id: (prev?.id ?? 0) + 1, message })), []);
+  const closeUndoToast = useCallback(() => setUndoToast(null), []);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS). Text fields keep their own undo.
+  const historyHandlersRef = useRef({ handleUndo, handleRedo });
+  historyHandlersRef.current = { handleUndo, handleRedo };
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+        if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') return;
+        const target = event.target as HTMLElement;
+        if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+        event.preventDefault();
+        if (event.shiftKey) {
+            historyHandlersRef.current.handleRedo();
+        } else {
+            historyHandlersRef.current.handleUndo();
+        }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
 
    useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -454,8 +5030,8 @@ const App = () => {
   
   const sortedEntries = useMemo(() => {
     return [...entries].sort((a, b) => {
-        const aIsBereitschaft = a.location.trim().toLowerCase() === 'bereitschaft';
-        const bIsBereitschaft = b.location.trim().toLowerCase() === 'bereitschaft';
+        const aIsBereitschaft = a.kind === 'onCall';
+        const bIsBereitschaft = b.kind === 'onCall';
 
         if (aIsBereitschaft && !bIsBereitschaft) {
             return 1; // a comes after b
@@ -478,83 +5054,305 @@ const App = () => {
     });
   }, [entries]);
 
-  const summaryMetrics: SummaryMetrics = useMemo(() => {
-    const vacationDays = new Set<string>();
-    const sickDays = new Set<string>();
-    const onCallDays = new Set<string>();
-    const workHoursByDay: Map<string, number> = new Map();
-    const deploymentHoursByDay: Map<string, number> = new Map();
-
-    // First, identify all vacation and sick days. These take precedence.
+  const dayHoursByDate = useMemo(() => {
+    // Entries crossing midnight are grouped under both calendar days they touch.
+    const entriesByDate = new Map<string, Entry[]>();
     entries.forEach(entry => {
-        const location = entry.location.trim().toLowerCase();
-        if (location === 'urlaub') {
-            vacationDays.add(entry.date);
-        } else if (location === 'krank') {
-            // This correctly captures all 'krank' entries, including when 'isChildSick' is true.
-            sickDays.add(entry.date);
+        const dates = new Set([entry.date, ...splitIntervalByDay(entry.date, entry.startTime, entry.endTime).map(s => s.date)]);
+        dates.forEach(date => {
+            const dayEntries = entriesByDate.get(date) || [];
+            dayEntries.push(entry);
+            entriesByDate.set(date, dayEntries);
+        });
+    });
+
+    const result = new Map<string, DayHours>();
+    for (const [date, dayEntries] of entriesByDate.entries()) {
+        const dayHours = calculateDayHours(date, dayEntries, !!workTimeSettings.autoDeductBreaks);
+        if (dayHours.gross > 0) {
+            result.set(date, dayHours);
+        }
+    }
+    return result;
+  }, [entries, workTimeSettings.autoDeductBreaks]);
+
+  const reportMonth = useMemo(() => toMonthKey(reportDate), [reportDate]);
+
+  const reportEntries = useMemo(() => {
+    return sortedEntries.filter(e => e.date.startsWith(reportMonth));
+  }, [sortedEntries, reportMonth]);
+
+  const reportBookings = useMemo(() => {
+    return overtimeBookings.filter(b => b.date.startsWith(reportMonth)).sort((a, b) => a.date.localeCompare(b.date));
+  }, [overtimeBookings, reportMonth]);
+
+  // Day totals are shown after the last regular entry of each day. Hours carried past
+  // midnight into a day without entries of its own get their own total right after.
+  const dayTotalsByEntryId = useMemo(() => {
+    const regularEntryDates = new Set(entries.filter(e => e.kind !== 'onCall').map(e => e.date));
+    const result = new Map<string, { label: string; date: string; dayHours: DayHours }[]>();
+
+    reportEntries.forEach((entry, index) => {
+        if (entry.kind === 'onCall') return;
+        const nextEntry = reportEntries[index + 1];
+        const isLastOfDay = !nextEntry || nextEntry.date !== entry.date || nextEntry.kind === 'onCall';
+        const dayHours = dayHoursByDate.get(entry.date);
+        if (!isLastOfDay || !dayHours) return;
+
+        const totals = [{ label: 'Tagessumme', date: entry.date, dayHours }];
+        const nextDate = addDays(entry.date, 1);
+        const carryOverHours = dayHoursByDate.get(nextDate);
+        if (carryOverHours && !regularEntryDates.has(nextDate) && nextDate.startsWith(reportMonth)) {
+            totals.push({ label: `${formatDate(nextDate)} (Übertrag)`, date: nextDate, dayHours: carryOverHours });
         }
+        result.set(entry.id, totals);
     });
+    return result;
+  }, [entries, reportEntries, dayHoursByDate, reportMonth]);
+
+  // Worked and target hours per calendar day; the basis for every overtime figure.
+  const dayBalances = useMemo(() => {
+    const balances = new Map<string, DayBalance>();
+    const getBalance = (date: string): DayBalance => {
+        let balance = balances.get(date);
+        if (!balance) {
+            balance = { workHours: 0, targetHours: 0, absenceDays: 0, holiday: getHolidayName(date, workTimeSettings.federalState) };
+            balances.set(date, balance);
+        }
+        return balance;
+    };
 
-    // Now, process hours for all entries, but ignore days that are vacation or sick.
+    // First, identify all absence days. These take precedence over work on the same day;
+    // sick leave takes precedence over any other absence. Half a day of vacation
+    // credits half the target; the other half is still due.
+    const creditedDays = new Map<string, number>();
     entries.forEach(entry => {
-        if (vacationDays.has(entry.date) || sickDays.has(entry.date)) {
-            return; // Skip this entry entirely for hour calculation
+        const absenceType = getAbsenceType(entry, absenceTypes);
+        if (!absenceType) return;
+        const balance = getBalance(entry.date);
+        const current = absenceTypes.find(t => t.id === balance.absenceTypeId);
+        const days = entry.isHalfDay ? 0.5 : 1;
+        if (current && (current.counter === 'sick' || (absenceType.counter !== 'sick' && balance.absenceDays >= days))) return;
+        balance.absenceTypeId = absenceType.id;
+        balance.absenceDays = days;
+        creditedDays.set(entry.date, absenceType.creditsTarget ? days : 0);
+    });
+    const isAbsent = (date: string) => balances.get(date)?.absenceDays === 1;
+    // Public holidays count as fulfilled target, so work on them is pure overtime.
+    const getDueHours = (date: string) => {
+        if (getHolidayName(date, workTimeSettings.federalState)) return 0;
+        return getTargetHours(date, workTimeSettings.models) * (1 - (creditedDays.get(date) || 0));
+    };
+
+    // Absences without credit, such as a Gleittag, leave the day's target due.
+    for (const [date, balance] of balances.entries()) {
+        if (creditedDays.get(date) === 0) {
+            balance.targetHours = getDueHours(date);
         }
+    }
 
-        const location = entry.location.trim().toLowerCase();
-        
-        if (location === 'bereitschaft') {
-            onCallDays.add(entry.date);
-            if (entry.deployments) {
-                entry.deployments.forEach(dep => {
-                    const depHours = calculateHours(dep.startTime, dep.endTime);
-                    const currentHours = deploymentHoursByDay.get(entry.date) || 0;
-                    deploymentHoursByDay.set(entry.date, currentHours + depHours);
-                });
-            }
-        } else if (location !== 'pause') { // Regular work entry
-            const calculated = calculateHours(entry.startTime, entry.endTime);
-            if(calculated > 0) {
-              const currentHours = workHoursByDay.get(entry.date) || 0;
-              workHoursByDay.set(entry.date, currentHours + calculated);
-            }
+    // Regular work uses the net hours of the day, i.e. after pauses are deducted.
+    for (const [date, dayHours] of dayHoursByDate.entries()) {
+        if (!isAbsent(date)) {
+            const balance = getBalance(date);
+            balance.workHours += dayHours.net;
+            balance.targetHours = getDueHours(date);
         }
+    }
+
+    // Deployments are pure overtime and carry no target of their own. Time added by the
+    // on-call rules' rounding and minimum counts on the day the deployment starts.
+    entries.forEach(entry => {
+        if (isAbsent(entry.date) || entry.kind !== 'onCall') return;
+        (entry.deployments || []).forEach(dep => {
+            let minutes = 0;
+            splitIntervalByDay(entry.date, dep.startTime, dep.endTime).forEach(segment => {
+                minutes += segment.end - segment.start;
+                getBalance(segment.date).workHours += (segment.end - segment.start) / 60;
+            });
+            getBalance(entry.date).workHours += (getCreditedDeploymentMinutes(minutes, onCallSettings) - minutes) / 60;
+        });
     });
 
-    // Calculate metrics
-    let calculatedOvertime = 0;
-    let currentMonthOvertime = 0;
-    let totalWorkHours = 0;
-    const now = new Date();
-    const currentMonthStr = `${now.getFullYear()}-${(now.getMonth() + 1).toString().padStart(2, '0')}`;
-
-    for (const [date, hours] of workHoursByDay.entries()) {
-        const dailyOvertime = hours - 8;
-        calculatedOvertime += dailyOvertime;
-        totalWorkHours += hours;
-        if (date.startsWith(currentMonthStr)) {
-            currentMonthOvertime += dailyOvertime;
+    // Days with a target but without any work count as missing hours, from the
+    // first recorded day up to yesterday (today may still be filled in).
+    if (workTimeSettings.countMissingDays && entries.length > 0) {
+        const firstDate = entries.reduce((min, e) => (e.date < min ? e.date : min), entries[0].date);
+        const today = toISODate(new Date());
+        for (const day = parseISODate(firstDate); toISODate(day) < today; day.setDate(day.getDate() + 1)) {
+            const date = toISODate(day);
+            if (dayHoursByDate.has(date) || isAbsent(date)) {
+                continue;
+            }
+            getBalance(date).targetHours = getDueHours(date);
         }
     }
-    
-    for (const [date, hours] of deploymentHoursByDay.entries()) {
-        calculatedOvertime += hours; // Deployments are pure overtime
-        totalWorkHours += hours;
-        if (date.startsWith(currentMonthStr)) {
-            currentMonthOvertime += hours;
+
+    // Time off in lieu counts as fulfilled target; the booking takes its hours off the balance instead.
+    overtimeBookings.forEach(booking => {
+        if (booking.kind !== 'timeOff') return;
+        const balance = getBalance(booking.date);
+        balance.targetHours = Math.max(0, balance.targetHours - booking.hours);
+    });
+
+    return balances;
+  }, [entries, overtimeBookings, workTimeSettings, onCallSettings, absenceTypes, dayHoursByDate]);
+
+  const summaryMetrics: SummaryMetrics = useMemo(() => {
+    // Days before the report month add up to the opening balance,
+    // days after it are not part of the report.
+    let openingOvertime = 0;
+    let monthOvertime = 0;
+    let monthWorkHours = 0;
+    let vacationDays = 0;
+    let sickDays = 0;
+    const otherAbsenceDays = new Map<string, number>();
+    let holidayWorkHours = 0;
+    const monthStart = `${reportMonth}-01`;
+
+    for (const [date, balance] of dayBalances.entries()) {
+        const overtime = balance.workHours - balance.targetHours;
+        if (date < monthStart) {
+            openingOvertime += overtime;
+        } else if (date.startsWith(reportMonth)) {
+            monthOvertime += overtime;
+            monthWorkHours += balance.workHours;
+            const absenceType = absenceTypes.find(t => t.id === balance.absenceTypeId);
+            if (absenceType?.counter === 'vacation') vacationDays += balance.absenceDays;
+            if (absenceType?.counter === 'sick') sickDays += balance.absenceDays;
+            if (absenceType?.counter === 'other') {
+                otherAbsenceDays.set(absenceType.id, (otherAbsenceDays.get(absenceType.id) || 0) + balance.absenceDays);
+            }
+            if (balance.holiday) holidayWorkHours += balance.workHours;
         }
     }
 
+    let openingBookings = 0;
+    let monthBookings = 0;
+    overtimeBookings.forEach(booking => {
+        if (booking.date < monthStart) openingBookings -= booking.hours;
+        else if (booking.date.startsWith(reportMonth)) monthBookings -= booking.hours;
+    });
+
+    const onCallEntries = entries.filter(e => e.date.startsWith(reportMonth) && e.kind === 'onCall' && !dayBalances.get(e.date)?.absenceTypeId);
+    const onCallDays = new Set(onCallEntries.map(e => e.date));
+    const onCallWeekendDays = [...onCallDays].filter(date => {
+        const weekday = parseISODate(date).getDay();
+        return weekday === 0 || weekday === 6 || !!dayBalances.get(date)?.holiday;
+    }).length;
+    const deploymentHours = onCallEntries
+        .flatMap(entry => entry.deployments || [])
+        .reduce((sum, dep) => sum + getDeploymentHours(dep, onCallSettings).credited, 0);
+    const openingBalance = baseOvertime + openingOvertime + openingBookings;
+
     return {
-        totalOvertime: calculatedOvertime + baseOvertime,
-        currentMonthOvertime,
-        totalWorkHours,
-        vacationDays: vacationDays.size,
-        sickDays: sickDays.size,
+        openingBalance,
+        totalOvertime: openingBalance + monthOvertime + monthBookings,
+        monthOvertime,
+        monthBookings,
+        monthWorkHours,
+        vacationDays,
+        sickDays,
+        otherAbsenceDays,
         onCallDays: onCallDays.size,
+        onCallWeekendDays,
+        onCallAllowance: (onCallDays.size - onCallWeekendDays) * onCallSettings.weekdayAllowance + onCallWeekendDays * onCallSettings.weekendAllowance,
+        deploymentHours,
+        holidayWorkHours,
+    };
+}, [entries, overtimeBookings, baseOvertime, absenceTypes, onCallSettings, dayBalances, reportMonth]);
+
+  // The month's overtime account: opening balance, earned overtime and each booking
+  // with the running balance after it. The last balance is the total overtime.
+  const overtimeLedger = useMemo(() => {
+    let balance = summaryMetrics.openingBalance;
+    const lines: { key: string; date?: string; label: string; hours: number; balance: number }[] = [
+        { key: 'opening', label: 'Übertrag Vormonat', hours: balance, balance },
+    ];
+    balance += summaryMetrics.monthOvertime;
+    lines.push({ key: 'earned', label: 'Erarbeitet im Monat', hours: summaryMetrics.monthOvertime, balance });
+    reportBookings.forEach(booking => {
+        balance -= booking.hours;
+        lines.push({ key: booking.id, date: booking.date, label: describeOvertimeBooking(booking), hours: -booking.hours, balance });
+    });
+    return lines;
+  }, [summaryMetrics, reportBookings]);
+
+  // Work on days of a full absence doesn't count, as in the day balances.
+  const surchargeSummary = useMemo(() => {
+    const countedEntries = entries.filter(e => dayBalances.get(e.date)?.absenceDays !== 1);
+    const hoursByBucket = calculateSurchargeHours(countedEntries, surchargeBuckets, reportMonth, workTimeSettings.federalState);
+    return surchargeBuckets.map(bucket => ({ bucket, hours: hoursByBucket.get(bucket.id) || 0 }));
+  }, [entries, dayBalances, surchargeBuckets, reportMonth, workTimeSettings.federalState]);
+
+  const vacationBalance = useMemo(() => {
+    return calculateVacationBalance(entries, absenceTypes, vacationSettings, reportDate.getFullYear(), toISODate(new Date()));
+  }, [entries, absenceTypes, vacationSettings, reportDate]);
+
+  const plausibilityWarnings = useMemo(() => checkPlausibility(entries, dayBalances, absenceTypes), [entries, dayBalances, absenceTypes]);
+
+  const reportWarnings = useMemo(() => {
+    return plausibilityWarnings.filter(w => w.date.startsWith(reportMonth));
+  }, [plausibilityWarnings, reportMonth]);
+
+  const reportLock = monthLocks.find(l => l.month === reportMonth);
+  const reportAuditLog = useMemo(() => auditLog.filter(e => e.month === reportMonth), [auditLog, reportMonth]);
+  // Earlier months or the work time model may have changed since the month was submitted.
+  const hasChangedSinceSubmit = !!reportLock && (Object.keys(reportLock.totals) as (keyof MonthTotals)[])
+    .some(key => Math.abs(reportLock.totals[key] - summaryMetrics[key]) >= 0.005);
+
+  // Warnings shown inline: by entry or deployment id, and by date for those about a whole day.
+  const { warningsById, dayWarningsByDate } = useMemo(() => {
+    const byId = new Map<string, PlausibilityWarning[]>();
+    const byDate = new Map<string, PlausibilityWarning[]>();
+    const add = (map: Map<string, PlausibilityWarning[]>, key: string, warning: PlausibilityWarning) => {
+        map.set(key, [...(map.get(key) || []), warning]);
     };
-}, [entries, baseOvertime]);
+    plausibilityWarnings.forEach(warning => {
+        if (warning.ids.length === 0) add(byDate, warning.date, warning);
+        warning.ids.forEach(id => add(byId, id, warning));
+    });
+    return { warningsById: byId, dayWarningsByDate: byDate };
+  }, [plausibilityWarnings]);
+
+  // Groups the report month by ISO calendar week. Weeks at the month's edges only
+  // cover their days within the month, so the weekly subtotals add up to the month.
+  const reportWeeks = useMemo(() => {
+    const weeks = new Map<string, ReportWeek>();
+    const monthStart = parseISODate(`${reportMonth}-01`);
+    for (const day = new Date(monthStart); day.getMonth() === monthStart.getMonth(); day.setDate(day.getDate() + 1)) {
+        const date = toISODate(day);
+        const { year, week } = getISOWeek(date);
+        const key = `${year}-W${week.toString().padStart(2, '0')}`;
+        let reportWeek = weeks.get(key);
+        if (!reportWeek) {
+            reportWeek = { key, week, from: date, to: date, entries: [], holidays: [], bookings: [], workHours: 0, targetHours: 0, daysOff: 0 };
+            weeks.set(key, reportWeek);
+        }
+        reportWeek.to = date;
+        const balance = dayBalances.get(date);
+        if (balance) {
+            reportWeek.workHours += balance.workHours;
+            reportWeek.targetHours += balance.targetHours;
+            reportWeek.daysOff += balance.absenceDays;
+        }
+        const holiday = getHolidayName(date, workTimeSettings.federalState);
+        if (holiday && !reportEntries.some(e => e.date === date && e.kind !== 'onCall')) {
+            reportWeek.holidays.push({ date, name: holiday });
+        }
+    }
+
+    reportEntries.forEach(entry => {
+        const { year, week } = getISOWeek(entry.date);
+        weeks.get(`${year}-W${week.toString().padStart(2, '0')}`)?.entries.push(entry);
+    });
+    reportBookings.forEach(booking => {
+        const { year, week } = getISOWeek(booking.date);
+        weeks.get(`${year}-W${week.toString().padStart(2, '0')}`)?.bookings.push(booking);
+    });
+
+    return [...weeks.values()].filter(w => w.entries.length > 0 || w.holidays.length > 0 || w.bookings.length > 0 || w.targetHours > 0);
+  }, [reportEntries, reportBookings, dayBalances, reportMonth, workTimeSettings.federalState]);
 
 
   const currentMonthYear = useMemo(() => {
@@ -649,77 +5447,168 @@ const App = () => {
     }));
   };
 
-  const locationLower = newEntry.location.trim().toLowerCase();
-  const isSpecialEntry = locationLower === 'urlaub' || locationLower === 'krank' || locationLower === 'bereitschaft';
+  const isSpecialEntry = !hasTimes(newEntry.kind);
+  const newAbsenceType = newEntry.kind === 'absence' ? absenceTypes.find(t => t.id === newEntry.absenceTypeId) : undefined;
 
   const handleSubmit = (e: FormEvent) => {
     e.preventDefault();
     setError(null);
-    const { date, location, startTime, endTime, isChildSick, hasDeployments, deployments } = newEntry;
+    const { date, kind, location, startTime, endTime, isChildSick, isHalfDay, endDate, hasDeployments, deployments } = newEntry;
 
-    if (!date || !location) {
-      setError("Datum und Ort/Auftrag sind Pflichtfelder.");
-      return;
+    const validationError = validateEntryFields({ date, kind, location, startTime, endTime });
+    if (validationError) {
+        setError(validationError);
+        return;
     }
 
-    if (!isSpecialEntry && (!startTime || !endTime || calculateHours(startTime, endTime) <= 0)) {
-        setError("Bei regulären Einträgen sind eine gültige Start- und Endzeit erforderlich, die eine positive Arbeitszeit ergeben.");
+    const isRange = isSpecialEntry && !!endDate && endDate !== date;
+    if (isRange && endDate < date) {
+        setError("Das Enddatum darf nicht vor dem Startdatum liegen.");
         return;
     }
 
-    const newEntryToAdd: Entry = {
-      id: Date.now().toString(),
-      date,
-      location,
+    // A range books one entry per working day, skipping weekends and public holidays.
+    const dates = isRange ? getWorkingDays(date, endDate, workTimeSettings) : [date];
+    if (dates.length === 0) {
+        setError("Im gewählten Zeitraum liegen keine Arbeitstage.");
+        return;
+    }
+    if (dates.some(isDateLocked)) {
+        setError("Der Monat ist abgegeben und gesperrt. Bitte zuerst entsperren.");
+        return;
+    }
+
+    const idBase = Date.now().toString();
+    const entriesToAdd: Entry[] = dates.map((day, index) => ({
+      id: isRange ? `${idBase}-${index}` : idBase,
+      date: day,
+      kind,
+      absenceTypeId: newAbsenceType?.id,
+      location: kind === 'work' ? location : getKindLocation(kind, newAbsenceType),
       startTime: isSpecialEntry ? '' : startTime,
       endTime: isSpecialEntry ? '' : endTime,
-      isChildSick: locationLower === 'krank' ? isChildSick : undefined,
-      deployments: locationLower === 'bereitschaft' && hasDeployments ? deployments : undefined,
+      isChildSick: newAbsenceType?.counter === 'sick' ? isChildSick : undefined,
+      isHalfDay: newAbsenceType?.counter === 'vacation' && !isRange && isHalfDay ? true : undefined,
+      rangeId: isRange ? idBase : undefined,
+      // Deployments happen once, so a range records them on its first day only.
+      deployments: kind === 'onCall' && hasDeployments && index === 0 ? deployments : undefined,
+    }));
+
+    const addEntries = () => {
+        setEntries(prev => [...entriesToAdd, ...prev]);
+
+        // Reset the form for the next entry, but keep the date
+        setNewEntry(prev => ({
+            ...initialNewEntryState,
+            date: prev.date,
+        }));
+        // Also reset the deployment form fields
+        setCurrentDeployment({ location: '', startTime: '', endTime: '' });
     };
 
-    setEntries(prev => [newEntryToAdd, ...prev]);
-    
-    // Reset the form for the next entry, but keep the date
-    setNewEntry(prev => ({
-        ...initialNewEntryState,
-        date: prev.date,
-    }));
-    // Also reset the deployment form fields
-    setCurrentDeployment({ location: '', startTime: '', endTime: '' });
+    if (isRange) {
+        confirmRangeConflicts(dates, kind, undefined, addEntries);
+    } else {
+        addEntries();
+    }
   };
   
   const handleAddPause = useCallback(() => {
-    const lastWorkEntry = [...sortedEntries].reverse().find(e => {
-        const loc = e.location.trim().toLowerCase();
-        return loc !== 'urlaub' && loc !== 'krank' && loc !== 'bereitschaft' && loc !== 'pause' && e.endTime;
-    });
+    const lastWorkEntry = [...sortedEntries].reverse().find(e => e.kind === 'work' && e.endTime);
 
     if (!lastWorkEntry) {
         alert("Fügen Sie zuerst einen regulären Arbeitseintrag hinzu, um eine Pause anzuhängen.");
         return;
     }
 
-    const pauseStartTime = lastWorkEntry.endTime;
-    const startTimeDate = new Date(`1970-01-01T${pauseStartTime}:00`);
-    
-    startTimeDate.setMinutes(startTimeDate.getMinutes() + 30);
-    
-    const pauseEndTime = startTimeDate.toTimeString().substring(0, 5);
+    const workStart = timeToMinutes(lastWorkEntry.startTime);
+    const workEnd = workStart + calculateHours(lastWorkEntry.startTime, lastWorkEntry.endTime) * 60;
+    if (workEnd - workStart < 30) {
+        alert("Der letzte Arbeitseintrag ist zu kurz für eine Pause von 30 Minuten.");
+        return;
+    }
+    if (isDateLocked(lastWorkEntry.date)) {
+        alert("Der letzte Arbeitseintrag liegt in einem abgegebenen Monat.");
+        return;
+    }
+
+    // Place the pause in the middle of the work entry so it is deducted from it.
+    const pauseStart = Math.max(workStart, Math.floor((workStart + workEnd - 30) / 2 / 15) * 15);
 
     const pauseEntry: Entry = {
         id: Date.now().toString(),
-        date: lastWorkEntry.date,
-        location: 'Pause',
-        startTime: pauseStartTime,
-        endTime: pauseEndTime,
+        date: pauseStart >= MINUTES_PER_DAY ? addDays(lastWorkEntry.date, 1) : lastWorkEntry.date,
+        kind: 'pause',
+        location: getKindLocation('pause'),
+        startTime: minutesToTime(pauseStart),
+        endTime: minutesToTime(pauseStart + 30),
     };
 
     setEntries(prev => [...prev, pauseEntry]);
-  }, [sortedEntries]);
+  }, [sortedEntries, isDateLocked]);
+
+  const handleClockIn = (location: string) => {
+    setRunningTimer({ location, startedAt: Date.now() });
+  };
+
+  // Closes the running interval at the current time. Returns false if the timer ran for a day
+  // or more; such an interval can't be a single entry, so it is moved to the form instead.
+  // The same happens if its month was submitted while the timer ran.
+  const stopRunningTimer = (timer: RunningTimer): boolean => {
+    const now = new Date();
+    if (now.getTime() - timer.startedAt >= MINUTES_PER_DAY * 60 * 1000) {
+        const start = new Date(timer.startedAt);
+        setNewEntry(prev => ({ ...prev, date: toISODate(start), kind: 'work', location: timer.location, startTime: getTimeOfDay(start), endTime: '' }));
+        setRunningTimer(null);
+        alert("Die Zeiterfassung lief länger als 24 Stunden. Bitte die Endzeit im Formular ergänzen.");
+        return false;
+    }
+    const closedEntries = closeRunningTimer(timer, now);
+    if (closedEntries.some(e => isDateLocked(e.date))) {
+        const start = new Date(timer.startedAt);
+        setNewEntry(prev => ({ ...prev, date: toISODate(start), kind: 'work', location: timer.location, startTime: getTimeOfDay(start), endTime: getTimeOfDay(now) }));
+        setRunningTimer(null);
+        alert("Der Monat ist abgegeben und gesperrt. Die erfasste Zeit wurde ins Formular übernommen und kann nach dem Entsperren gebucht werden.");
+        return false;
+    }
+    setEntries(prev => [...closedEntries, ...prev]);
+    return true;
+  };
+
+  const handleClockOut = () => {
+    if (!runningTimer) return;
+    stopRunningTimer(runningTimer);
+    setRunningTimer(null);
+  };
+
+  const handleSwitchLocation = (location: string) => {
+    if (!runningTimer) return;
+    if (stopRunningTimer(runningTimer)) {
+        setRunningTimer({ location, startedAt: Date.now() });
+    }
+  };
+
+  // Ending a pause books it right away, so it is kept even if the clock-out is forgotten.
+  const handleTogglePause = () => {
+    if (!runningTimer) return;
+    if (runningTimer.pauseStartedAt === undefined) {
+        setRunningTimer({ ...runningTimer, pauseStartedAt: Date.now() });
+        return;
+    }
+    const now = new Date();
+    const pauseEntries = createIntervalEntry(now.getTime().toString(), 'pause', getKindLocation('pause'), new Date(runningTimer.pauseStartedAt), now);
+    if (pauseEntries.some(e => isDateLocked(e.date))) {
+        alert("Der Monat ist abgegeben und gesperrt. Die Pause kann erst nach dem Entsperren gebucht werden.");
+        return;
+    }
+    setEntries(prev => [...pauseEntries, ...prev]);
+    setRunningTimer({ location: runningTimer.location, startedAt: runningTimer.startedAt });
+  };
 
   const handleAddStandardDay = useCallback(() => {
     setNewEntry(prev => ({
       ...prev,
+      kind: 'work',
       location: 'Büro',
       startTime: '07:00',
       endTime: '15:30',
@@ -732,6 +5621,7 @@ const App = () => {
   const handleAddFriday = useCallback(() => {
     setNewEntry(prev => ({
       ...prev,
+      kind: 'work',
       location: 'Büro',
       startTime: '07:00',
       endTime: '13:00',
@@ -741,134 +5631,446 @@ const App = () => {
     }));
   }, []);
 
-  const handleUpdateEntry = useCallback((updatedEntry: Entry) => {
-    setEntries(prev => prev.map(e => (e.id === updatedEntry.id ? updatedEntry : e)));
-    setEditingEntry(null);
-  }, []);
-  
-  const handleDeleteEntry = (id: string) => {
-    setConfirmation({
+  // Asks before a range is booked onto days that already have entries. On-call duty
+  // only collides with absences and other on-call entries, not with regular work.
+  const confirmRangeConflicts = (dates: string[], kind: EntryKind, ignoreRangeId: string | undefined, onProceed: () => void) => {
+    const dateSet = new Set(dates);
+    const conflicts = [...new Set(entries
+        .filter(e => dateSet.has(e.date) && (!ignoreRangeId || e.rangeId !== ignoreRangeId))
+        .filter(e => kind !== 'onCall' || !hasTimes(e.kind))
+        .map(e => e.date))].sort();
+
+    if (conflicts.length === 0) {
+        onProceed();
+        return;
+    }
+
+    setConfirmation({
+        isOpen: true,
+        title: 'Vorhandene Einträge',
+        message: `An folgenden Tagen gibt es bereits Einträge: ${conflicts.map(formatDate).join(', ')}. Trotzdem speichern?`,
+        onConfirm: () => {
+            onProceed();
+            setConfirmation(null);
+        },
+        onCancel: () => setConfirmation(null),
+        confirmText: 'Trotzdem speichern',
+        confirmVariant: 'primary',
+    });
+  };
+
+  // A range end is passed when a range entry was edited; the range is then rebuilt
+  // as a whole, keeping the ids of days that stay part of it.
+  const handleUpdateEntry = (updatedEntry: Entry, rangeEnd?: string) => {
+    const { rangeId } = updatedEntry;
+    if (!rangeId || rangeEnd === undefined) {
+        if (isDateLocked(updatedEntry.date)) {
+            alert("Der Eintrag kann nicht in einen abgegebenen Monat verschoben werden.");
+            return;
+        }
+        setEntries(prev => prev.map(e => (e.id === updatedEntry.id ? updatedEntry : e)));
+        setEditingEntry(null);
+        return;
+    }
+
+    // The rebuild removes every day of the range and writes the new ones, so neither
+    // may lie in a submitted month, even between the range ends.
+    const dates = getWorkingDays(updatedEntry.date, rangeEnd || updatedEntry.date, workTimeSettings);
+    const currentDates = entries.filter(e => e.rangeId === rangeId).map(e => e.date);
+    if ([...currentDates, ...dates].some(isDateLocked)) {
+        alert("Der Zeitraum liegt ganz oder teilweise in einem abgegebenen Monat und kann nicht geändert werden.");
+        return;
+    }
+    if (dates.length === 0) {
+        alert("Im gewählten Zeitraum liegen keine Arbeitstage.");
+        return;
+    }
+
+    // Deployments belong to a single day, so they are not copied across the range: each day
+    // keeps its own, and those edited here stay with the edited entry. If its day dropped
+    // out of the range, they move to the first day.
+    const existingByDate = new Map(entries.filter(e => e.rangeId === rangeId).map(e => [e.date, e]));
+    const editedDate = dates.find(date => existingByDate.get(date)?.id === updatedEntry.id) ?? dates[0];
+    const getDeployments = (date: string, existing?: Entry): Deployment[] | undefined => {
+        if (updatedEntry.kind !== 'onCall') return undefined;
+        if (date !== editedDate) return existing?.deployments;
+        if (!existing || existing.id === updatedEntry.id) return updatedEntry.deployments;
+        const combined = [...(existing.deployments || []), ...(updatedEntry.deployments || [])];
+        return combined.length > 0 ? combined : undefined;
+    };
+    const idBase = Date.now().toString();
+    const rangeEntries: Entry[] = dates.map((date, index) => {
+        const existing = existingByDate.get(date);
+        return {
+            ...updatedEntry,
+            id: existing?.id || `${idBase}-${index}`,
+            date,
+            deployments: getDeployments(date, existing),
+        };
+    });
+
+    confirmRangeConflicts(dates, updatedEntry.kind, rangeId, () => {
+        setEntries(prev => [...prev.filter(e => e.rangeId !== rangeId), ...rangeEntries]);
+        setEditingEntry(null);
+    });
+  };
+  
+  // Entries of submitted months can't be opened for editing.
+  const startEditing = (entry: Entry) => {
+    if (isDateLocked(entry.date)) {
+        alert("Der Monat ist abgegeben und gesperrt. Bitte zuerst entsperren.");
+        return;
+    }
+    setEditingEntry(entry);
+  };
+
+  const handleDeleteEntry = (id: string) => {
+    if (entries.some(e => e.id === id && isDateLocked(e.date))) return;
+    setEntries(prev => prev.filter(e => e.id !== id));
+    showUndoToast('Eintrag gelöscht.');
+  };
+
+  const handleAddBooking = (booking: Omit<OvertimeBooking, 'id'>) => {
+    setOvertimeBookings(prev => [...prev, { ...booking, id: Date.now().toString() }]);
+    setIsBookingModalOpen(false);
+  };
+
+  const handleDeleteBooking = (id: string) => {
+    if (overtimeBookings.some(b => b.id === id && isDateLocked(b.date))) return;
+    setOvertimeBookings(prev => prev.filter(b => b.id !== id));
+    showUndoToast('Buchung gelöscht.');
+  };
+
+  const cancelBookingModal = useCallback(() => {
+    setIsBookingModalOpen(false);
+  }, []);
+
+  const editingRange = useMemo(() => {
+    if (!editingEntry?.rangeId) return undefined;
+    const rangeDates = entries.filter(e => e.rangeId === editingEntry.rangeId).map(e => e.date).sort();
+    return rangeDates.length > 0 ? { from: rangeDates[0], to: rangeDates[rangeDates.length - 1] } : undefined;
+  }, [editingEntry, entries]);
+
+  const cancelEditing = useCallback(() => {
+    setEditingEntry(null);
+  }, []);
+
+  const handleSaveWorkTimeSettings = useCallback((settings: WorkTimeSettings) => {
+    setWorkTimeSettings(settings);
+    setIsWorkTimeModalOpen(false);
+  }, []);
+
+  const cancelWorkTimeModal = useCallback(() => {
+    setIsWorkTimeModalOpen(false);
+  }, []);
+
+  const handleSaveSurchargeBuckets = useCallback((buckets: SurchargeBucket[]) => {
+    setSurchargeBuckets(buckets);
+    setIsSurchargeModalOpen(false);
+  }, []);
+
+  const cancelSurchargeModal = useCallback(() => {
+    setIsSurchargeModalOpen(false);
+  }, []);
+
+  const handleSaveOnCallSettings = useCallback((settings: OnCallSettings) => {
+    setOnCallSettings(settings);
+    setIsOnCallModalOpen(false);
+  }, []);
+
+  const cancelOnCallModal = useCallback(() => {
+    setIsOnCallModalOpen(false);
+  }, []);
+
+  const handleSaveVacationSettings = useCallback((settings: VacationSettings) => {
+    setVacationSettings(settings);
+    setIsVacationModalOpen(false);
+  }, []);
+
+  const cancelVacationModal = useCallback(() => {
+    setIsVacationModalOpen(false);
+  }, []);
+
+  // Absence entries keep the type name as their location, so renamed types are renamed there too.
+  // Entries of submitted months keep the name they were submitted with.
+  const handleSaveAbsenceTypes = useCallback((types: AbsenceType[]) => {
+    setAbsenceTypes(types);
+    setEntries(prev => prev.map(e => {
+        const type = getAbsenceType(e, types);
+        return type && type.name !== e.location && !isDateLocked(e.date) ? { ...e, location: type.name } : e;
+    }));
+    setIsAbsenceTypesModalOpen(false);
+  }, [isDateLocked]);
+
+  const cancelAbsenceTypesModal = useCallback(() => {
+    setIsAbsenceTypesModalOpen(false);
+  }, []);
+
+  const usedAbsenceTypeIds = useMemo(() => {
+    return new Set(entries.filter(e => e.kind === 'absence' && e.absenceTypeId).map(e => e.absenceTypeId as string));
+  }, [entries]);
+
+  const buildTimesheetPDF = () => {
+    const rows: PdfRow[] = [];
+    reportWeeks.forEach(week => {
+        rows.push({ variant: 'heading', cells: [`KW ${week.week} · ${formatShortDate(week.from)}–${formatShortDate(week.to)}`] });
+        const pushHolidayRows = (index: number) => {
+            getHolidaysBefore(week, index).forEach(holiday => {
+                rows.push({ variant: 'detail', cells: [formatDate(holiday.date), `Feiertag: ${holiday.name}`, '-', '-', '-'] });
+            });
+        };
+        week.entries.forEach((entry, index) => {
+            pushHolidayRows(index);
+            const isSpecialTimeEntry = !hasTimes(entry.kind);
+            const hasHours = entry.kind === 'work';
+            const overnightMarker = isOvernight(entry.startTime, entry.endTime) ? ' (+1)' : '';
+            const holiday = getHolidayName(entry.date, workTimeSettings.federalState);
+
+            rows.push({ cells: [
+                formatDate(entry.date),
+                `${getEntryLabel(entry, absenceTypes)}${entry.isChildSick ? ' (Kind)' : ''}${entry.isHalfDay ? ' (½ Tag)' : ''}${holiday ? ` (Feiertag: ${holiday})` : ''}`,
+                isSpecialTimeEntry ? '-' : entry.startTime,
+                isSpecialTimeEntry ? '-' : `${entry.endTime}${overnightMarker}`,
+                hasHours ? calculateHours(entry.startTime, entry.endTime).toFixed(2) : '-',
+            ] });
+            (entry.deployments || []).forEach(dep => {
+                const depHours = getDeploymentHours(dep, onCallSettings);
+                rows.push({ variant: 'detail', cells: [
+                    '',
+                    `${dep.location}${depHours.credited !== depHours.actual ? ` (erfasst ${depHours.actual.toFixed(2)} Std.)` : ''}`,
+                    dep.startTime,
+                    `${dep.endTime}${isOvernight(dep.startTime, dep.endTime) ? ' (+1)' : ''}`,
+                    depHours.credited.toFixed(2),
+                ] });
+            });
+            (dayTotalsByEntryId.get(entry.id) || []).forEach(({ label, dayHours }) => {
+                const breakShortfall = dayHours.requiredBreakMinutes - dayHours.breakMinutes;
+                const notes = [
+                    dayHours.autoDeductedMinutes > 0 ? `davon ${dayHours.autoDeductedMinutes} Min. autom. Pausenabzug` : '',
+                    breakShortfall > 0 ? `Pause zu kurz: ${dayHours.requiredBreakMinutes} Min. erforderlich, ${dayHours.breakMinutes} Min. gebucht` : '',
+                ].filter(Boolean);
+                rows.push({ variant: 'subtotal', cells: [
+                    label,
+                    [`Brutto ${dayHours.gross.toFixed(2)} – Pause ${(dayHours.gross - dayHours.net).toFixed(2)}`, ...notes].join('; '),
+                    '',
+                    '',
+                    dayHours.net.toFixed(2),
+                ] });
+            });
+        });
+        pushHolidayRows(week.entries.length);
+        week.bookings.forEach(booking => {
+            rows.push({ cells: [formatDate(booking.date), describeOvertimeBooking(booking), '-', '-', formatHours(-booking.hours)] });
+        });
+        rows.push({ variant: 'total', cells: [
+            `Summe KW ${week.week}`,
+            `Ist ${week.workHours.toFixed(2)} – Soll ${week.targetHours.toFixed(2)}${week.daysOff > 0 ? ` – ${formatDays(week.daysOff)} ${week.daysOff === 1 ? 'Tag' : 'Tage'} frei` : ''}`,
+            '',
+            '',
+            formatHours(week.workHours - week.targetHours),
+        ] });
+        rows.push({ variant: 'detail', cells: ['', 'Abgezeichnet (Vorgesetzte/r): ______________________', '', '', ''] });
+    });
+
+    return createTimesheetPDF({
+        title: 'Wochenzettel',
+        subtitle: employeeName ? `${currentMonthYear} für ${employeeName}` : currentMonthYear,
+        summary: [
+            { label: 'Übertrag Vormonat', value: `${formatHours(summaryMetrics.openingBalance)} Std.` },
+            { label: 'Überstunden Gesamt', value: `${formatHours(summaryMetrics.totalOvertime)} Std.` },
+            { label: 'Überstunden Monat', value: `${formatHours(summaryMetrics.monthOvertime)} Std.` },
+            { label: 'Ausgleich/Auszahlung Monat', value: `${formatHours(summaryMetrics.monthBookings)} Std.` },
+            { label: 'Arbeitsstunden Monat', value: `${summaryMetrics.monthWorkHours.toFixed(2)} Std.` },
+            { label: 'Urlaubstage', value: formatDays(summaryMetrics.vacationDays) },
+            { label: `Resturlaub ${reportDate.getFullYear()}`, value: `${formatDays(vacationBalance.remaining)} von ${formatDays(vacationBalance.entitlement + vacationBalance.carryOver - vacationBalance.expired)}` },
+            { label: 'Krankentage', value: formatDays(summaryMetrics.sickDays) },
+            ...[...summaryMetrics.otherAbsenceDays.entries()].map(([typeId, days]) => ({
+                label: absenceTypes.find(t => t.id === typeId)?.name || typeId,
+                value: formatDays(days),
+            })),
+            { label: 'Bereitschaftstage', value: `${summaryMetrics.onCallDays} (${summaryMetrics.onCallWeekendDays} WE/Feiertag)` },
+            { label: 'Bereitschaftspauschale', value: formatCurrency(summaryMetrics.onCallAllowance) },
+            { label: 'Einsatzstunden angerechnet', value: `${summaryMetrics.deploymentHours.toFixed(2)} Std.` },
+            { label: 'Arbeit an Feiertagen', value: `${summaryMetrics.holidayWorkHours.toFixed(2)} Std.` },
+            ...surchargeSummary.map(({ bucket, hours }) => ({
+                label: `Zuschlag ${bucket.name} (${bucket.rate} %)`,
+                value: `${hours.toFixed(2)} Std.`,
+            })),
+        ],
+        columns: [
+            { header: 'Datum', width: 28 },
+            { header: 'Ort / Auftrag', width: 88 },
+            { header: 'Von', width: 20 },
+            { header: 'Bis', width: 22 },
+            { header: 'Stunden', width: 22, align: 'right' },
+        ],
+        rows,
+        auditLog: [
+            ...reportAuditLog.map(describeAuditLogEvent),
+            ...(reportLock ? [`Summen bei Abgabe: ${describeMonthTotals(reportLock.totals)}`] : []),
+        ],
+        signatureLabels: PDF_SIGNATURE_LABELS,
+    });
+  };
+
+  // Exports go through the check panel first when the report month has warnings.
+  const runAfterReview = (action: () => void) => {
+    if (reportWarnings.length === 0) {
+        action();
+        return;
+    }
+    setIsSettingsOpen(false);
+    setPlausibilityReview({
+        onContinue: () => {
+            setPlausibilityReview(null);
+            action();
+        },
+    });
+  };
+
+  // Submitting freezes the month: its totals are kept as they are now and its
+  // entries can't be changed until it is unlocked with a reason.
+  const handleSubmitMonth = () => {
+    const month = reportMonth;
+    const { otherAbsenceDays: _otherAbsenceDays, ...totals } = summaryMetrics;
+    runAfterReview(() => setConfirmation({
         isOpen: true,
-        title: 'Eintrag löschen',
-        message: 'Möchten Sie diesen Eintrag wirklich löschen? Diese Aktion kann nicht rückgängig gemacht werden.',
+        title: 'Monat abgeben',
+        message: `Möchten Sie ${currentMonthYear} abgeben? Die Einträge des Monats werden gesperrt und die Summen festgehalten. Zum Ändern muss der Monat mit Begründung entsperrt werden.`,
         onConfirm: () => {
-            setEntries(prev => prev.filter(e => e.id !== id));
+            const at = new Date().toISOString();
+            setMonthLocks(prev => [...prev.filter(l => l.month !== month), { month, submittedAt: at, totals }]);
+            setAuditLog(prev => [...prev, { month, action: 'submit', at }]);
             setConfirmation(null);
         },
         onCancel: () => setConfirmation(null),
-        confirmText: 'Löschen',
-        confirmVariant: 'danger',
-    });
+        confirmText: 'Abgeben',
+        confirmVariant: 'primary',
+    }));
   };
 
-  const cancelEditing = useCallback(() => {
-    setEditingEntry(null);
+  const handleUnlockMonth = (reason: string) => {
+    setMonthLocks(prev => prev.filter(l => l.month !== reportMonth));
+    setAuditLog(prev => [...prev, { month: reportMonth, action: 'unlock', at: new Date().toISOString(), reason }]);
+    setIsUnlockModalOpen(false);
+  };
+
+  const cancelUnlockModal = useCallback(() => {
+    setIsUnlockModalOpen(false);
   }, []);
 
-  const handleExportToPDF = async () => {
+  const handleExportToPDF = () => {
     setIsExporting(true);
-    const exportContent = document.getElementById('export-content');
-    if (!exportContent) {
-        setIsExporting(false);
-        return;
-    }
-    
-    document.body.classList.add('exporting-pdf');
-
     try {
-        const canvas = await html2canvas(exportContent, { scale: 2, logging: false, useCORS: true });
-        document.body.classList.remove('exporting-pdf');
-
-        const imgData = canvas.toDataURL('image/png');
-        const pdf = new jsPDF('p', 'mm', 'a4');
-        const pdfWidth = pdf.internal.pageSize.getWidth();
-        const imgProps = pdf.getImageProperties(imgData);
-        const pdfHeight = (imgProps.height * pdfWidth) / imgProps.width;
-
-        let heightLeft = pdfHeight;
-        let position = 0;
-
-        pdf.addImage(imgData, 'PNG', 0, position, pdfWidth, pdfHeight);
-        heightLeft -= pdf.internal.pageSize.getHeight();
-
-        while (heightLeft >= 0) {
-          position = heightLeft - pdfHeight;
-          pdf.addPage();
-          pdf.addImage(imgData, 'PNG', 0, position, pdfWidth, pdfHeight);
-          heightLeft -= pdf.internal.pageSize.getHeight();
-        }
-        
         const monthName = monthNames[reportDate.getMonth()];
         const yearShort = reportDate.getFullYear().toString().slice(-2);
-        const fileName = `Wochenzettel_${monthName}_${yearShort}.pdf`;
-        pdf.save(fileName);
-
+        buildTimesheetPDF().save(`Wochenzettel_${monthName}_${yearShort}.pdf`);
     } catch (err) {
         console.error("PDF Export failed:", err);
         alert("Entschuldigung, beim Erstellen des PDFs ist ein Fehler aufgetreten.");
-        document.body.classList.remove('exporting-pdf');
     } finally {
         setIsExporting(false);
     }
   };
 
+  // Numbers stay numbers, so the payroll office can calculate with them.
+  const getSpreadsheetSummaryRows = (): SpreadsheetCell[][] => [
+    ['Kennzahl', 'Wert', 'Einheit'],
+    ['Mitarbeiter/in', employeeName, ''],
+    ['Berichtsmonat', currentMonthYear, ''],
+    ['Übertrag Vormonat', roundHours(summaryMetrics.openingBalance), 'Std.'],
+    ['Überstunden Gesamt', roundHours(summaryMetrics.totalOvertime), 'Std.'],
+    ['Überstunden Monat', roundHours(summaryMetrics.monthOvertime), 'Std.'],
+    ['Ausgleich/Auszahlung Monat', roundHours(summaryMetrics.monthBookings), 'Std.'],
+    ['Arbeitsstunden Monat', roundHours(summaryMetrics.monthWorkHours), 'Std.'],
+    ['Urlaubstage', summaryMetrics.vacationDays, 'Tage'],
+    [`Resturlaub ${reportDate.getFullYear()}`, vacationBalance.remaining, 'Tage'],
+    ['Krankentage', summaryMetrics.sickDays, 'Tage'],
+    ...[...summaryMetrics.otherAbsenceDays.entries()].map(([typeId, days]) => [absenceTypes.find(t => t.id === typeId)?.name || typeId, days, 'Tage']),
+    ['Bereitschaftstage Mo–Fr', summaryMetrics.onCallDays - summaryMetrics.onCallWeekendDays, 'Tage'],
+    ['Bereitschaftstage Wochenende/Feiertag', summaryMetrics.onCallWeekendDays, 'Tage'],
+    ['Bereitschaftspauschale', roundHours(summaryMetrics.onCallAllowance), 'EUR'],
+    ['Einsatzstunden angerechnet', roundHours(summaryMetrics.deploymentHours), 'Std.'],
+    ['Arbeit an Feiertagen', roundHours(summaryMetrics.holidayWorkHours), 'Std.'],
+    ...surchargeSummary.map(({ bucket, hours }) => [`Zuschlag ${bucket.name} (${bucket.rate} %)`, roundHours(hours), 'Std.']),
+  ];
+
+  const handleSpreadsheetExport = (format: SpreadsheetFormat, columns: ExportColumnId[]) => {
+    setExportColumns(columns);
+    setIsSpreadsheetModalOpen(false);
+    try {
+        const monthName = monthNames[reportDate.getMonth()];
+        const yearShort = reportDate.getFullYear().toString().slice(-2);
+        const baseFileName = `Wochenzettel_${monthName}_${yearShort}`;
+        const entryRows = getSpreadsheetEntryRows(reportEntries, columns, absenceTypes);
+        const summaryRows = getSpreadsheetSummaryRows();
+        if (format === 'xlsx') {
+            const workbook = createXLSX([{ name: 'Einträge', rows: entryRows }, { name: 'Zusammenfassung', rows: summaryRows }]);
+            downloadBlob(workbook, `${baseFileName}.xlsx`);
+        } else {
+            downloadBlob(createCSV(entryRows), `${baseFileName}.csv`);
+            downloadBlob(createCSV(summaryRows), `${baseFileName}_Zusammenfassung.csv`);
+        }
+    } catch (err) {
+        console.error("Spreadsheet export failed:", err);
+        alert("Entschuldigung, beim Erstellen der Tabelle ist ein Fehler aufgetreten.");
+    }
+  };
+
+  const handleCalendarExport = (types: IcsEntryType[], onlyReportMonth: boolean) => {
+    setIsCalendarExportOpen(false);
+    const calendar = createICS(onlyReportMonth ? reportEntries : sortedEntries, types, absenceTypes);
+    const fileName = onlyReportMonth
+        ? `Wochenzettel_${monthNames[reportDate.getMonth()]}_${reportDate.getFullYear().toString().slice(-2)}.ics`
+        : 'Wochenzettel_Kalender.ics';
+    downloadBlob(new Blob([calendar], { type: 'text/calendar;charset=utf-8' }), fileName);
+  };
+
+  // The month file carries the balance of earlier months as its base overtime,
+  // so loading it on its own yields the same totals as the report.
+  const getMonthExportJSON = () => {
+    return JSON.stringify({
+        version: EXPORT_FORMAT_VERSION,
+        employeeName,
+        reportMonth,
+        entries: entries.filter(e => e.date.startsWith(reportMonth)),
+        savedLocations,
+        baseOvertime: summaryMetrics.openingBalance,
+        workTimeSettings,
+        vacationSettings,
+        onCallSettings,
+        surchargeBuckets,
+        absenceTypes,
+        overtimeBookings: reportBookings,
+        monthLocks: monthLocks.filter(l => l.month === reportMonth),
+        auditLog: reportAuditLog,
+    }, null, 2);
+  };
+
   const handleSave = () => {
-    const dataToSave = JSON.stringify({ employeeName, entries, savedLocations, baseOvertime }, null, 2);
-    const blob = new Blob([dataToSave], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
+    const blob = new Blob([getMonthExportJSON()], { type: 'application/json' });
     const monthName = monthNames[reportDate.getMonth()];
     const yearShort = reportDate.getFullYear().toString().slice(-2);
-    const fileName = `Wochenzettel_${monthName}_${yearShort}.json`;
-    link.href = url;
-    link.download = fileName;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    downloadBlob(blob, `Wochenzettel_${monthName}_${yearShort}.json`);
+  };
+
+  const handleBackup = () => {
+    const dataToSave = JSON.stringify({ version: EXPORT_FORMAT_VERSION, employeeName, entries, savedLocations, baseOvertime, workTimeSettings, vacationSettings, onCallSettings, surchargeBuckets, absenceTypes, overtimeBookings, monthLocks, auditLog }, null, 2);
+    const blob = new Blob([dataToSave], { type: 'application/json' });
+    downloadBlob(blob, `Wochenzettel_Sicherung_${toISODate(new Date())}.json`);
   };
 
-  const handlePrepareShare = async () => {
-    if (!navigator.share || entries.length === 0) return;
+  const handlePrepareShare = () => {
+    if (!navigator.share || reportEntries.length === 0) return;
 
     setShareState('preparing');
     setShareError(null);
     setShareFiles(null);
     setIsSettingsOpen(false); // Close dropdown for better UX
 
-    const exportContent = document.getElementById('export-content');
-    if (!exportContent) {
-        setShareError("Der zu exportierende Inhalt konnte nicht gefunden werden.");
-        setShareState('error');
-        return;
-    }
-
-    await new Promise(resolve => setTimeout(resolve, 50));
-
     try {
-        document.body.classList.add('exporting-pdf');
-        const canvas = await html2canvas(exportContent, { scale: 2, logging: false, useCORS: true });
-        document.body.classList.remove('exporting-pdf');
-
-        const imgData = canvas.toDataURL('image/png');
-        const pdf = new jsPDF('p', 'mm', 'a4');
-        const pdfWidth = pdf.internal.pageSize.getWidth();
-        const imgProps = pdf.getImageProperties(imgData);
-        const pdfHeight = (imgProps.height * pdfWidth) / imgProps.width;
-        let heightLeft = pdfHeight;
-        let position = 0;
-        pdf.addImage(imgData, 'PNG', 0, position, pdfWidth, pdfHeight);
-        heightLeft -= pdf.internal.pageSize.getHeight();
-        while (heightLeft >= 0) {
-          position = heightLeft - pdfHeight;
-          pdf.addPage();
-          pdf.addImage(imgData, 'PNG', 0, position, pdfWidth, pdfHeight);
-          heightLeft -= pdf.internal.pageSize.getHeight();
-        }
-        const pdfBlob = pdf.output('blob');
-        
-        const dataToSave = JSON.stringify({ employeeName, entries, savedLocations, baseOvertime }, null, 2);
-        const jsonBlob = new Blob([dataToSave], { type: 'application/json' });
+        const pdfBlob = buildTimesheetPDF().output('blob');
+        const jsonBlob = new Blob([getMonthExportJSON()], { type: 'application/json' });
 
         const monthName = monthNames[reportDate.getMonth()];
         const yearShort = reportDate.getFullYear().toString().slice(-2);
@@ -929,78 +6131,225 @@ const App = () => {
       return;
     }
 
-    const processFile = () => {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        try {
-          const text = e.target?.result;
-          if (typeof text !== 'string') {
-            throw new Error("Konnte Datei nicht als Text lesen.");
-          }
-          
-          const data = JSON.parse(text);
-          
-          if (data && Array.isArray(data.entries)) {
-            setEntries(data.entries);
-            setEmployeeName(typeof data.employeeName === 'string' ? data.employeeName : '');
-            setSavedLocations(Array.isArray(data.savedLocations) ? data.savedLocations : []);
-            setBaseOvertime(typeof data.baseOvertime === 'number' ? data.baseOvertime : 0);
-          } else {
-            throw new Error("Ungültiges Dateiformat. Die Datei muss ein 'entries'-Array enthalten.");
-          }
-        } catch (err) {
-          console.error("Fehler beim Laden der Datei:", err);
-          alert(`Fehler beim Laden der Datei: ${err instanceof Error ? err.message : 'Unbekannter Fehler'}`);
-        } finally {
-            inputElement.value = '';
+    // The file is only validated here; nothing changes before the preview is confirmed.
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const text = e.target?.result;
+        if (typeof text !== 'string') {
+          throw new Error("Konnte Datei nicht als Text lesen.");
         }
-      };
-
-      reader.onerror = () => {
-        alert("Fehler beim Lesen der Datei.");
-        inputElement.value = '';
-      };
+        if (file.name.toLowerCase().endsWith('.ics')) {
+            const events = parseICS(text);
+            if (events.length === 0) {
+                throw new Error("Die Kalenderdatei enthält keine Termine.");
+            }
+            setCalendarImport({ fileName: file.name, events });
+        } else if (file.name.toLowerCase().endsWith('.csv')) {
+            const rows = parseCSV(text);
+            if (rows.length === 0) {
+                throw new Error("Die CSV-Datei ist leer.");
+            }
+            setCsvImport({ fileName: file.name, rows });
+        } else {
+            setImportData(parseImportFile(JSON.parse(text), file.name));
+        }
+        setIsSettingsOpen(false);
+      } catch (err) {
+        console.error("Fehler beim Laden der Datei:", err);
+        alert(`Fehler beim Laden der Datei: ${err instanceof Error ? err.message : 'Unbekannter Fehler'}`);
+      } finally {
+          inputElement.value = '';
+      }
+    };
 
-      reader.readAsText(file);
+    reader.onerror = () => {
+      alert("Fehler beim Lesen der Datei.");
+      inputElement.value = '';
     };
-    
+
+    reader.readAsText(file);
+  };
+
+  const handleImport = (mode: ImportMode, importedEntries: Entry[]) => {
+    if (!importData) return;
+    if (mode === 'profile') {
+        if (!dbRef.current) {
+            alert("Ohne funktionierenden Speicher können keine weiteren Profile angelegt werden.");
+            return;
+        }
+        const { fileName: _fileName, version: _version, issues: _issues, entries: _entries, ...settings } = importData;
+        const profileId = Date.now().toString();
+        setProfiles(prev => [...prev, { id: profileId, name: importData.employeeName ?? '' }]);
+        showProfile(profileId, { entries: importedEntries, settings }, { entries: [], settings: {} });
+        clearHistory();
+        setImportData(null);
+        return;
+    }
+    setEntries(importedEntries);
+    if (mode === 'replace') {
+        setEmployeeName(importData.employeeName ?? '');
+        setSavedLocations(importData.savedLocations ?? []);
+        setBaseOvertime(importData.baseOvertime ?? 0);
+        setWorkTimeSettings(importData.workTimeSettings ?? DEFAULT_WORK_TIME_SETTINGS);
+        setVacationSettings(importData.vacationSettings ?? DEFAULT_VACATION_SETTINGS);
+        setOnCallSettings(importData.onCallSettings ?? DEFAULT_ON_CALL_SETTINGS);
+        setSurchargeBuckets(importData.surchargeBuckets ?? DEFAULT_SURCHARGE_BUCKETS);
+        setAbsenceTypes(importData.absenceTypes ?? DEFAULT_ABSENCE_TYPES);
+        setOvertimeBookings(importData.overtimeBookings ?? []);
+        setMonthLocks(importData.monthLocks ?? []);
+        // The log outlives the data it describes; the file's events are added to it.
+        setAuditLog(prev => [
+            ...prev,
+            ...(importData.auditLog ?? []).filter(e => !prev.some(p => p.at === e.at && p.action === e.action && p.month === e.month)),
+            createResetEvent(`Datei „${importData.fileName}“ geladen`),
+        ].sort((a, b) => a.at.localeCompare(b.at)));
+        showUndoToast(`Datei „${importData.fileName}“ geladen.`);
+    } else {
+        const newLocations = (importData.savedLocations ?? []).filter(l => !savedLocations.some(s => s.name.toLowerCase() === l.name.toLowerCase()));
+        if (newLocations.length > 0) {
+            setSavedLocations(prev => [...prev, ...newLocations].sort((a, b) => a.name.localeCompare(b.name, 'de')));
+        }
+        // Absence types only known from the file are needed by its entries.
+        const usedTypeIds = new Set(importedEntries.map(e => e.absenceTypeId));
+        const newTypes = (importData.absenceTypes ?? DEFAULT_ABSENCE_TYPES).filter(t => usedTypeIds.has(t.id) && !absenceTypes.some(c => c.id === t.id));
+        if (newTypes.length > 0) {
+            setAbsenceTypes(prev => [...prev, ...newTypes]);
+        }
+        const newBookings = (importData.overtimeBookings ?? []).filter(b => !isDateLocked(b.date) && !overtimeBookings.some(c => c.id === b.id));
+        if (newBookings.length > 0) {
+            setOvertimeBookings(prev => [...prev, ...newBookings]);
+        }
+        showUndoToast(`Datei „${importData.fileName}“ zusammengeführt.`);
+    }
+    setImportData(null);
+  };
+
+  const cancelImport = useCallback(() => {
+    setImportData(null);
+  }, []);
+
+  // Undo history and the form belong to the profile that was shown.
+  const clearHistory = () => {
+    setUndoStack([]);
+    setRedoStack([]);
+    setUndoToast(null);
+    setNewEntry(initialNewEntryState);
+  };
+
+  const handleSwitchProfile = (profileId: string) => {
+    const db = dbRef.current;
+    if (profileId === activeProfileId) return;
+    if (!db) {
+        alert("Ohne funktionierenden Speicher kann das Profil nicht gewechselt werden.");
+        return;
+    }
+    loadPersistedData(db, profileId)
+      .then(({ entries: profileEntries, settings }) => {
+        showProfile(profileId, { entries: profileEntries, settings });
+        clearHistory();
+      })
+      .catch(error => {
+        console.error("Error loading profile", error);
+        alert(`Das Profil konnte nicht geladen werden: ${describeStorageError(error)}`);
+      });
+  };
+
+  // A new profile starts empty; its name is entered in the settings.
+  const handleAddProfile = () => {
+    if (!dbRef.current) {
+        alert("Ohne funktionierenden Speicher können keine weiteren Profile angelegt werden.");
+        return;
+    }
+    const profileId = Date.now().toString();
+    setProfiles(prev => [...prev, { id: profileId, name: '' }]);
+    showProfile(profileId, { entries: [], settings: {} });
+    clearHistory();
+    setIsSettingsOpen(true);
+  };
+
+  const handleDeleteProfile = () => {
+    const db = dbRef.current;
+    const nextProfile = profiles.find(p => p.id !== activeProfileId);
+    if (!db || !nextProfile) return;
+    const deletedId = activeProfileId;
     setConfirmation({
         isOpen: true,
-        title: 'Daten überschreiben',
-        message: 'Möchten Sie die aktuellen Daten wirklich überschreiben? Nicht gespeicherte Änderungen gehen verloren.',
+        title: 'Profil löschen',
+        message: `Möchten Sie das Profil „${employeeName || 'Ohne Namen'}“ mit allen Einträgen und Einstellungen wirklich löschen? Dies kann nicht rückgängig gemacht werden.`,
         onConfirm: () => {
-            processFile();
             setConfirmation(null);
             setIsSettingsOpen(false);
+            loadPersistedData(db, nextProfile.id)
+              .then(({ entries: profileEntries, settings }) => {
+                showProfile(nextProfile.id, { entries: profileEntries, settings });
+                setProfiles(prev => prev.filter(p => p.id !== deletedId));
+                clearHistory();
+                return deleteProfileData(db, deletedId);
+              })
+              .catch(error => {
+                console.error("Error deleting profile", error);
+                alert(`Das Profil konnte nicht gelöscht werden: ${describeStorageError(error)}`);
+              });
         },
-        onCancel: () => {
-            inputElement.value = '';
-            setConfirmation(null);
-        },
-        confirmText: 'Überschreiben',
+        onCancel: () => setConfirmation(null),
+        confirmText: 'Profil löschen',
         confirmVariant: 'danger',
     });
   };
+
+  const handleCsvImport = (importedEntries: Entry[], duplicateCount: number) => {
+    if (!csvImport) return;
+    const addedEntries = importedEntries.filter(e => !isDateLocked(e.date));
+    const lockedCount = importedEntries.length - addedEntries.length;
+    setEntries(prev => [...addedEntries, ...prev]);
+    showUndoToast(`${addedEntries.length} ${addedEntries.length === 1 ? 'Eintrag' : 'Einträge'} aus „${csvImport.fileName}“ importiert${duplicateCount > 0 ? `, ${duplicateCount} doppelte übersprungen` : ''}${lockedCount > 0 ? `, ${lockedCount} in abgegebenen Monaten übersprungen` : ''}.`);
+    setCsvImport(null);
+  };
+
+  const cancelCsvImport = useCallback(() => {
+    setCsvImport(null);
+  }, []);
+
+  const handleCalendarImport = (importedEntries: Entry[], duplicateCount: number) => {
+    if (!calendarImport) return;
+    const addedEntries = importedEntries.filter(e => !isDateLocked(e.date));
+    const lockedCount = importedEntries.length - addedEntries.length;
+    setEntries(prev => [...addedEntries, ...prev]);
+    showUndoToast(`${addedEntries.length} ${addedEntries.length === 1 ? 'Eintrag' : 'Einträge'} aus „${calendarImport.fileName}“ importiert${duplicateCount > 0 ? `, ${duplicateCount} doppelte übersprungen` : ''}${lockedCount > 0 ? `, ${lockedCount} in abgegebenen Monaten übersprungen` : ''}.`);
+    setCalendarImport(null);
+  };
+
+  const cancelCalendarImport = useCallback(() => {
+    setCalendarImport(null);
+  }, []);
   
   const handleNewDocument = () => {
     setConfirmation({
         isOpen: true,
         title: 'Neues Dokument erstellen',
-        message: 'Möchten Sie wirklich ein neues Dokument erstellen? Alle aktuellen Einträge und Einstellungen werden unwiderruflich gelöscht.',
+        message: 'Möchten Sie wirklich ein neues Dokument erstellen? Alle aktuellen Einträge und Einstellungen werden gelöscht. Einträge, Orte, Name und Basis-Überstunden lassen sich danach noch rückgängig machen. Das Protokoll abgegebener Monate bleibt erhalten.',
         onConfirm: () => {
-            try {
-                localStorage.clear();
-                setEntries([]);
-                setEmployeeName('');
-                setSavedLocations([]);
-                setBaseOvertime(0);
-                setNewEntry(initialNewEntryState);
-                setResetMessage('Alle lokalen Daten wurden erfolgreich entfernt.');
-                setTimeout(() => setResetMessage(''), 4000);
-              } catch (error) {
-                console.error("Error clearing localStorage", error);
-                alert("Fehler beim Löschen der Daten aus dem lokalen Speicher.");
-              }
+            // Resetting the state is enough: the save effect removes the stored data.
+            setEntries([]);
+            setEmployeeName('');
+            setSavedLocations([]);
+            setBaseOvertime(0);
+            setWorkTimeSettings(DEFAULT_WORK_TIME_SETTINGS);
+            setVacationSettings(DEFAULT_VACATION_SETTINGS);
+            setOnCallSettings(DEFAULT_ON_CALL_SETTINGS);
+            setSurchargeBuckets(DEFAULT_SURCHARGE_BUCKETS);
+            setAbsenceTypes(DEFAULT_ABSENCE_TYPES);
+            setRunningTimer(null);
+            setOvertimeBookings([]);
+            setMonthLocks([]);
+            // The log is kept, so the reset itself stays on record.
+            setAuditLog(prev => [...prev, createResetEvent('Neues Dokument')]);
+            setExportColumns(DEFAULT_EXPORT_COLUMNS);
+            setNewEntry(initialNewEntryState);
+            setResetMessage('Alle Daten dieses Profils wurden erfolgreich entfernt.');
+            showUndoToast('Neues Dokument erstellt.');
+            setTimeout(() => setResetMessage(''), 4000);
             setConfirmation(null);
             setIsSettingsOpen(false);
         },
@@ -1014,9 +6363,10 @@ const App = () => {
     setConfirmation({
         isOpen: true,
         title: 'Einträge löschen',
-        message: 'Möchten Sie wirklich alle Einträge löschen? Ihre Einstellungen (Mitarbeitername, Überstunden, Orte) bleiben erhalten.',
+        message: `Möchten Sie wirklich alle Einträge löschen? Ihre Einstellungen (Mitarbeitername, Überstunden, Orte) bleiben erhalten.${monthLocks.length > 0 ? ' Einträge in abgegebenen Monaten bleiben ebenfalls erhalten.' : ''}`,
         onConfirm: () => {
-            setEntries([]);
+            setEntries(prev => prev.filter(e => isDateLocked(e.date)));
+            showUndoToast('Alle Einträge gelöscht.');
             setResetMessage('Alle Einträge wurden erfolgreich gelöscht.');
             setTimeout(() => setResetMessage(''), 4000);
             setConfirmation(null);
@@ -1031,14 +6381,19 @@ const App = () => {
   const handleAddSavedLocation = (e: FormEvent) => {
     e.preventDefault();
     const locationToAdd = newSavedLocation.trim();
-    if (locationToAdd && !savedLocations.some(l => l.toLowerCase() === locationToAdd.toLowerCase())) {
-        setSavedLocations(prev => [...prev, locationToAdd].sort((a, b) => a.localeCompare(b, 'de')));
+    if (locationToAdd && !savedLocations.some(l => l.name.toLowerCase() === locationToAdd.toLowerCase())) {
+        setSavedLocations(prev => [...prev, createSavedLocation(locationToAdd)].sort((a, b) => a.name.localeCompare(b.name, 'de')));
         setNewSavedLocation('');
     }
   };
   
   const handleDeleteSavedLocation = (locationToDelete: string) => {
-      setSavedLocations(prev => prev.filter(l => l !== locationToDelete));
+      setSavedLocations(prev => prev.filter(l => l.name !== locationToDelete));
+  };
+
+  const handleSaveLocationDetails = (location: SavedLocation) => {
+      setSavedLocations(prev => prev.map(l => (l.name === location.name ? location : l)));
+      setEditingLocation(null);
   };
   
   const handleCopyLocation = (locationToCopy: string) => {
@@ -1056,23 +6411,176 @@ const App = () => {
   };
 
   const handleSavedLocationClick = useCallback((location: string) => {
-    setNewEntry(prev => ({ ...prev, location }));
+    setNewEntry(prev => ({ ...prev, kind: 'work', location }));
     locationInputRef.current?.focus();
   }, []);
 
 
-  const isFormValid = newEntry.date && newEntry.location && (isSpecialEntry || (newEntry.startTime && newEntry.endTime));
+  const isFormValid = newEntry.date && (newEntry.kind !== 'work' || newEntry.location) && (isSpecialEntry || (newEntry.startTime && newEntry.endTime));
+
+  if (!isLoaded) {
+    return (
+      <main className="app-container">
+        <p className="loading-message">Daten werden geladen…</p>
+      </main>
+    );
+  }
 
   return (
     <main className="app-container">
+      {storageError && (
+        <div className="storage-error" role="alert">
+            <span>{storageError}</span>
+            <button type="button" onClick={handleBackup}>Sicherung herunterladen</button>
+        </div>
+      )}
       {editingEntry && (
         <EditModal 
             entry={editingEntry}
+            range={editingRange}
+            absenceTypes={absenceTypes}
             onUpdate={handleUpdateEntry}
             onCancel={cancelEditing}
             savedLocations={savedLocations}
         />
       )}
+      {isWorkTimeModalOpen && (
+        <WorkTimeModal
+            settings={workTimeSettings}
+            onSave={handleSaveWorkTimeSettings}
+            onCancel={cancelWorkTimeModal}
+        />
+      )}
+      {importData && (
+        <ImportModal
+            data={importData}
+            currentEntries={entries}
+            absenceTypes={absenceTypes}
+            isDateLocked={isDateLocked}
+            onImport={handleImport}
+            onCancel={cancelImport}
+        />
+      )}
+      {csvImport && (
+        <CsvImportModal
+            fileName={csvImport.fileName}
+            rows={csvImport.rows}
+            currentEntries={entries}
+            absenceTypes={absenceTypes}
+            onImport={handleCsvImport}
+            onCancel={cancelCsvImport}
+        />
+      )}
+      {plausibilityReview && (
+        <PlausibilityModal
+            warnings={reportWarnings}
+            monthLabel={currentMonthYear}
+            entries={entries}
+            onEdit={entry => { setPlausibilityReview(null); startEditing(entry); }}
+            onContinue={plausibilityReview.onContinue}
+            onCancel={() => setPlausibilityReview(null)}
+        />
+      )}
+      {calendarImport && (
+        <CalendarImportModal
+            fileName={calendarImport.fileName}
+            events={calendarImport.events}
+            currentEntries={entries}
+            absenceTypes={absenceTypes}
+            workTimeSettings={workTimeSettings}
+            onImport={handleCalendarImport}
+            onCancel={cancelCalendarImport}
+        />
+      )}
+      {isCalendarExportOpen && (
+        <CalendarExportModal
+            monthLabel={currentMonthYear}
+            onExport={handleCalendarExport}
+            onCancel={() => setIsCalendarExportOpen(false)}
+        />
+      )}
+      {isBookingModalOpen && (
+        <OvertimeBookingModal
+            defaultDate={reportMonth === toMonthKey(new Date()) ? toISODate(new Date()) : `${reportMonth}-01`}
+            workTimeSettings={workTimeSettings}
+            isDateLocked={isDateLocked}
+            onSave={handleAddBooking}
+            onCancel={cancelBookingModal}
+        />
+      )}
+      {isUnlockModalOpen && (
+        <UnlockMonthModal
+            monthLabel={currentMonthYear}
+            onUnlock={handleUnlockMonth}
+            onCancel={cancelUnlockModal}
+        />
+      )}
+      {isSpreadsheetModalOpen && (
+        <SpreadsheetExportModal
+            columns={exportColumns}
+            monthLabel={currentMonthYear}
+            onExport={handleSpreadsheetExport}
+            onCancel={() => setIsSpreadsheetModalOpen(false)}
+        />
+      )}
+      {isAbsenceTypesModalOpen && (
+        <AbsenceTypesModal
+            absenceTypes={absenceTypes}
+            usedTypeIds={usedAbsenceTypeIds}
+            onSave={handleSaveAbsenceTypes}
+            onCancel={cancelAbsenceTypesModal}
+        />
+      )}
+      {editingLocation && (
+        <LocationDetailsModal
+            location={editingLocation}
+            onSave={handleSaveLocationDetails}
+            onCancel={() => setEditingLocation(null)}
+        />
+      )}
+      {isLocationReportOpen && (
+        <LocationReportModal
+            entries={entries}
+            dayHoursByDate={dayHoursByDate}
+            onCallSettings={onCallSettings}
+            savedLocations={savedLocations}
+            employeeName={employeeName}
+            initialFrom={`${reportMonth}-01`}
+            initialTo={toISODate(new Date(reportDate.getFullYear(), reportDate.getMonth() + 1, 0))}
+            onClose={() => setIsLocationReportOpen(false)}
+        />
+      )}
+      {isStatisticsOpen && (
+        <StatisticsModal
+            entries={entries}
+            dayBalances={dayBalances}
+            overtimeBookings={overtimeBookings}
+            baseOvertime={baseOvertime}
+            initialYear={reportDate.getFullYear()}
+            onClose={() => setIsStatisticsOpen(false)}
+        />
+      )}
+      {isSurchargeModalOpen && (
+        <SurchargeModal
+            buckets={surchargeBuckets}
+            onSave={handleSaveSurchargeBuckets}
+            onCancel={cancelSurchargeModal}
+        />
+      )}
+      {isOnCallModalOpen && (
+        <OnCallModal
+            settings={onCallSettings}
+            onSave={handleSaveOnCallSettings}
+            onCancel={cancelOnCallModal}
+        />
+      )}
+      {isVacationModalOpen && (
+        <VacationModal
+            settings={vacationSettings}
+            onSave={handleSaveVacationSettings}
+            onCancel={cancelVacationModal}
+        />
+      )}
       {confirmation?.isOpen && (
           <ConfirmModal
             title={confirmation.title}
@@ -1129,89 +6637,138 @@ const App = () => {
       )}
 
       <datalist id="saved-locations-list">
-        {savedLocations.map(loc => <option key={loc} value={loc} />)}
+        {savedLocations.map(loc => <option key={loc.name} value={loc.name} />)}
       </datalist>
 
+      {undoToast && <UndoToast id={undoToast.id} message={undoToast.message} onUndo={handleUndo} onClose={closeUndoToast} />}
       <header className="app-header">
         <h1 className="main-title">Wochenzettel</h1>
-        <div className="settings-menu" ref={settingsMenuRef}>
-            <button className="settings-menu-button" onClick={() => setIsSettingsOpen(prev => !prev)} aria-label="Einstellungen öffnen">
-                ⚙️
-            </button>
-            {isSettingsOpen && (
-                <div className="settings-dropdown">
-                    <div className="settings-section">
-                        <h3>Einstellungen & Export</h3>
-                         <div className="form-group">
-                            <label htmlFor="employeeName">Mitarbeitername</label>
-                            <input type="text" id="employeeName" name="employeeName" value={employeeName} onChange={handleNameChange} placeholder="Namen eingeben..."/>
-                        </div>
-                        <div className="form-group">
-                            <label htmlFor="baseOvertime">Basis-Überstunden (Korrektur)</label>
-                            <input 
-                                type="number" 
-                                id="baseOvertime" 
-                                name="baseOvertime" 
-                                value={baseOvertime === 0 && !document.activeElement?.id.includes('baseOvertime') ? '' : baseOvertime} 
-                                onChange={handleBaseOvertimeChange} 
-                                placeholder="z.B. 10.5 oder -5"
-                                step="0.01"
-                            />
-                        </div>
-                        <div className="form-group">
-                            <label htmlFor="reportMonth">Berichtsmonat</label>
-                            <div className="date-select-group">
-                                <select
-                                    id="reportMonth"
-                                    aria-label="Monat auswählen"
-                                    value={reportDate.getMonth()}
-                                    onChange={handleMonthChange}
-                                >
-                                    {monthNames.map((month, index) => (
-                                    <option key={index} value={index}>{month}</option>
-                                    ))}
-                                </select>
-                                <select
-                                    aria-label="Jahr auswählen"
-                                    value={reportDate.getFullYear()}
-                                    onChange={handleYearChange}
-                                >
-                                    {yearRange.map(year => (
-                                    <option key={year} value={year}>{year}</option>
-                                    ))}
-                                </select>
+        <div className="header-actions">
+            <select
+                className="profile-select"
+                value={activeProfileId}
+                onChange={e => (e.target.value === NEW_PROFILE_OPTION ? handleAddProfile() : handleSwitchProfile(e.target.value))}
+                aria-label="Profil wählen"
+                title="Profil wählen"
+            >
+                {profiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name || 'Ohne Namen'}</option>)}
+                <option value={NEW_PROFILE_OPTION}>+ Neues Profil</option>
+            </select>
+            <button className="history-button" onClick={handleUndo} disabled={undoStack.length === 0} aria-label="Rückgängig" title="Rückgängig (Strg+Z)">↶</button>
+            <button className="history-button" onClick={handleRedo} disabled={redoStack.length === 0} aria-label="Wiederherstellen" title="Wiederherstellen (Strg+Umschalt+Z)">↷</button>
+            <div className="settings-menu" ref={settingsMenuRef}>
+                <button className="settings-menu-button" onClick={() => setIsSettingsOpen(prev => !prev)} aria-label="Einstellungen öffnen">
+                    ⚙️
+                </button>
+                {isSettingsOpen && (
+                    <div className="settings-dropdown">
+                        <div className="settings-section">
+                            <h3>Einstellungen & Export</h3>
+                             <div className="form-group">
+                                <label htmlFor="employeeName">Mitarbeitername</label>
+                                <input type="text" id="employeeName" name="employeeName" value={employeeName} onChange={handleNameChange} placeholder="Namen eingeben..."/>
+                            </div>
+                            <div className="form-group">
+                                <label htmlFor="baseOvertime">Basis-Überstunden (Korrektur)</label>
+                                <input 
+                                    type="number" 
+                                    id="baseOvertime" 
+                                    name="baseOvertime" 
+                                    value={baseOvertime === 0 && !document.activeElement?.id.includes('baseOvertime') ? '' : baseOvertime} 
+                                    onChange={handleBaseOvertimeChange} 
+                                    placeholder="z.B. 10.5 oder -5"
+                                    step="0.01"
+                                />
+                            </div>
+                            <button onClick={() => { setIsWorkTimeModalOpen(true); setIsSettingsOpen(false); }} className="file-button work-time-button">
+                                Arbeitszeitmodell bearbeiten
+                            </button>
+                            <button onClick={() => { setIsVacationModalOpen(true); setIsSettingsOpen(false); }} className="file-button work-time-button">
+                                Urlaubsanspruch bearbeiten
+                            </button>
+                            <button onClick={() => { setIsOnCallModalOpen(true); setIsSettingsOpen(false); }} className="file-button work-time-button">
+                                Bereitschaftsregeln bearbeiten
+                            </button>
+                            <button onClick={() => { setIsSurchargeModalOpen(true); setIsSettingsOpen(false); }} className="file-button work-time-button">
+                                Zuschläge bearbeiten
+                            </button>
+                            <button onClick={() => { setIsAbsenceTypesModalOpen(true); setIsSettingsOpen(false); }} className="file-button work-time-button">
+                                Abwesenheitsarten bearbeiten
+                            </button>
+                            <div className="form-group">
+                                <label htmlFor="reportMonth">Berichtsmonat</label>
+                                <div className="date-select-group">
+                                    <select
+                                        id="reportMonth"
+                                        aria-label="Monat auswählen"
+                                        value={reportDate.getMonth()}
+                                        onChange={handleMonthChange}
+                                    >
+                                        {monthNames.map((month, index) => (
+                                        <option key={index} value={index}>{month}</option>
+                                        ))}
+                                    </select>
+                                    <select
+                                        aria-label="Jahr auswählen"
+                                        value={reportDate.getFullYear()}
+                                        onChange={handleYearChange}
+                                    >
+                                        {yearRange.map(year => (
+                                        <option key={year} value={year}>{year}</option>
+                                        ))}
+                                    </select>
+                                </div>
                             </div>
+                            <button onClick={() => { setPlausibilityReview({}); setIsSettingsOpen(false); }} className="file-button work-time-button" disabled={reportEntries.length === 0}>
+                                {reportWarnings.length > 0 ? `Prüfen (${reportWarnings.length} ${reportWarnings.length === 1 ? 'Hinweis' : 'Hinweise'})` : 'Prüfen'}
+                            </button>
+                            <button onClick={() => runAfterReview(handleExportToPDF)} className="export-button" disabled={isExporting || reportEntries.length === 0}>
+                                {isExporting ? 'Exportiere...' : 'Als PDF speichern'}
+                            </button>
+                            <button onClick={() => { setIsSettingsOpen(false); runAfterReview(() => setIsSpreadsheetModalOpen(true)); }} className="file-button work-time-button" disabled={reportEntries.length === 0}>
+                                Als Tabelle exportieren (CSV/Excel)
+                            </button>
+                            <button onClick={() => { setIsCalendarExportOpen(true); setIsSettingsOpen(false); }} className="file-button work-time-button" disabled={entries.length === 0}>
+                                Als Kalender exportieren (.ics)
+                            </button>
+                            <button onClick={() => { setIsStatisticsOpen(true); setIsSettingsOpen(false); }} className="file-button work-time-button" disabled={entries.length === 0}>
+                                Statistik anzeigen
+                            </button>
+                            <button onClick={() => { setIsLocationReportOpen(true); setIsSettingsOpen(false); }} className="file-button work-time-button" disabled={entries.length === 0}>
+                                Bericht nach Ort / Auftrag
+                            </button>
                         </div>
-                        <button onClick={handleExportToPDF} className="export-button" disabled={isExporting || entries.length === 0}>
-                            {isExporting ? 'Exportiere...' : 'Als PDF speichern'}
-                        </button>
-                    </div>
                     
-                    <div className="settings-section">
-                        <h3>Datenverwaltung</h3>
-                        <p className={`save-indicator ${saveIndicatorText === 'Gespeichert!' ? 'visible' : ''}`}>{saveIndicatorText}</p>
+                        <div className="settings-section">
+                            <h3>Datenverwaltung</h3>
+                            <p className={`save-indicator ${saveIndicatorText === 'Gespeichert!' ? 'visible' : ''}`}>{saveIndicatorText}</p>
                         
-                        {navigator.share && (
-                            <button 
-                                onClick={handlePrepareShare} 
-                                className="share-button" 
-                                disabled={shareState !== 'idle' || isExporting || entries.length === 0}
-                            >
-                                {shareState === 'preparing' ? 'Dateien werden erstellt...' : 'Senden / Teilen'}
-                            </button>
-                        )}
+                            {navigator.share && (
+                                <button 
+                                    onClick={() => runAfterReview(handlePrepareShare)} 
+                                    className="share-button" 
+                                    disabled={shareState !== 'idle' || isExporting || reportEntries.length === 0}
+                                >
+                                    {shareState === 'preparing' ? 'Dateien werden erstellt...' : 'Senden / Teilen'}
+                                </button>
+                            )}
                         
-                        <div className="file-actions">
-                            <button onClick={handleLoadTrigger} className="file-button">Laden</button>
-                            <button onClick={handleSave} className="file-button" disabled={entries.length === 0}>Speichern</button>
-                            <button onClick={handleDeleteAllEntries} className="file-button reset-button" title="Löscht nur die Zeiteinträge.">Einträge löschen</button>
-                            <button onClick={handleNewDocument} className="file-button reset-button" title="Löscht alle Einträge und Einstellungen.">Neues Dokument</button>
+                            <div className="file-actions">
+                                <button onClick={handleLoadTrigger} className="file-button" title="Lädt eine gespeicherte Datei oder importiert eine CSV- oder Kalenderdatei.">Laden</button>
+                                <button onClick={handleSave} className="file-button" disabled={reportEntries.length === 0} title="Speichert die Einträge des Berichtsmonats als Monatsdatei. Sie kann zusammengeführt, aber nicht zum Ersetzen geladen werden.">Monat speichern</button>
+                                <button onClick={handleBackup} className="file-button" disabled={entries.length === 0} title="Speichert alle Einträge und Einstellungen.">Sicherung</button>
+                                <button onClick={handleDeleteAllEntries} className="file-button reset-button" title="Löscht nur die Zeiteinträge.">Einträge löschen</button>
+                                <button onClick={handleNewDocument} className="file-button reset-button" title="Löscht alle Einträge und Einstellungen.">Neues Dokument</button>
+                                {profiles.length > 1 && (
+                                    <button onClick={handleDeleteProfile} className="file-button reset-button" title="Löscht dieses Profil mit allen Einträgen und Einstellungen.">Profil löschen</button>
+                                )}
+                            </div>
+                            {resetMessage && <div className="reset-message">{resetMessage}</div>}
+                            <input type="file" ref={fileInputRef} onChange={handleFileSelected} style={{ display: 'none' }} accept=".json,.csv,.ics" />
                         </div>
-                        {resetMessage && <div className="reset-message">{resetMessage}</div>}
-                        <input type="file" ref={fileInputRef} onChange={handleFileSelected} style={{ display: 'none' }} accept=".json" />
                     </div>
-                </div>
-            )}
+                )}
+            </div>
         </div>
       </header>
         
@@ -1230,16 +6787,24 @@ const App = () => {
               </form>
               {savedLocations.length > 0 && (
                   <ul className="saved-locations-list">
-                      {savedLocations.map(loc => (
-                          <li key={loc}>
-                              <button className="location-name-button" onClick={() => handleSavedLocationClick(loc)} title={`"${loc}" in aktuelles Formular einfügen`}>
-                                  {loc}
+                      {savedLocations.map(({ name, ...details }) => (
+                          <li key={name}>
+                              <button className="location-name-button" onClick={() => handleSavedLocationClick(name)} title={`"${name}" in aktuelles Formular einfügen`}>
+                                  {name}
+                                  {(details.customerNumber || details.hourlyRate !== undefined) && (
+                                      <span className="location-meta">
+                                          {[details.customerNumber && `Kd.-Nr. ${details.customerNumber}`, details.hourlyRate !== undefined && `${formatCurrency(details.hourlyRate)}/Std.`].filter(Boolean).join(' · ')}
+                                      </span>
+                                  )}
                               </button>
                               <div className="location-item-actions">
-                                  <button onClick={() => handleCopyLocation(loc)} title={`${loc} kopieren`}>
-                                      {copiedLocation === loc ? '✅' : '📋'}
+                                  <button onClick={() => handleCopyLocation(name)} title={`${name} kopieren`}>
+                                      {copiedLocation === name ? '✅' : '📋'}
                                   </button>
-                                  <button onClick={() => handleDeleteSavedLocation(loc)} title={`${loc} löschen`}>
+                                  <button onClick={() => setEditingLocation({ name, ...details })} title={`${name} bearbeiten`}>
+                                      ✏️
+                                  </button>
+                                  <button onClick={() => handleDeleteSavedLocation(name)} title={`${name} löschen`}>
                                       🗑️
                                   </button>
                               </div>
@@ -1251,24 +6816,64 @@ const App = () => {
           
           <section className="form-card" aria-labelledby="form-heading">
             <h2 id="form-heading" className="sr-only">Neuer Eintrag</h2>
+            <Stopwatch
+                timer={runningTimer}
+                onClockIn={handleClockIn}
+                onClockOut={handleClockOut}
+                onSwitchLocation={handleSwitchLocation}
+                onTogglePause={handleTogglePause}
+            />
             <form className="entry-form" onSubmit={handleSubmit} noValidate>
               <div className="form-group">
                 <label htmlFor="date">Datum</label>
                 <input type="date" id="date" name="date" value={newEntry.date} onChange={handleInputChange} required />
               </div>
               <div className="form-group">
-                <label htmlFor="location">Ort / Auftrag</label>
-                <input ref={locationInputRef} type="text" id="location" name="location" value={newEntry.location} onChange={handleInputChange} placeholder="z.B. Büro, Urlaub, Krank, Bereitschaft" list="saved-locations-list" required />
+                <label htmlFor="kind">Art</label>
+                <EntryTypeSelect
+                    id="kind"
+                    kind={newEntry.kind}
+                    absenceTypeId={newEntry.absenceTypeId}
+                    absenceTypes={absenceTypes}
+                    onChange={type => setNewEntry(prev => ({ ...prev, ...type }))}
+                />
               </div>
+              {newEntry.kind === 'work' && (
+                <div className="form-group">
+                  <label htmlFor="location">Ort / Auftrag</label>
+                  <input ref={locationInputRef} type="text" id="location" name="location" value={newEntry.location} onChange={handleInputChange} placeholder="z.B. Büro, Baustelle" list="saved-locations-list" required />
+                </div>
+              )}
               
-              {locationLower === 'krank' && (
+              {newAbsenceType?.counter === 'sick' && (
                 <div className="form-group checkbox-group">
                     <input type="checkbox" id="isChildSick" name="isChildSick" checked={newEntry.isChildSick} onChange={handleInputChange}/>
                     <label htmlFor="isChildSick">Auf Kind krank</label>
                 </div>
               )}
+
+              {isSpecialEntry && (
+                <div className="form-group">
+                  <label htmlFor="endDate">Bis Datum (optional)</label>
+                  <input type="date" id="endDate" name="endDate" value={newEntry.endDate} min={newEntry.date} onChange={handleInputChange} />
+                </div>
+              )}
+
+              {newAbsenceType?.counter === 'vacation' && (
+                <div className="form-group checkbox-group">
+                  <input type="checkbox" id="isHalfDay" name="isHalfDay" checked={newEntry.isHalfDay} onChange={handleInputChange} disabled={!!newEntry.endDate && newEntry.endDate !== newEntry.date}/>
+                  <label htmlFor="isHalfDay">Halber Tag</label>
+                </div>
+              )}
+
+              {isSpecialEntry && newEntry.endDate && newEntry.endDate > newEntry.date && (
+                <p className="overnight-hint">
+                  {`${getWorkingDays(newEntry.date, newEntry.endDate, workTimeSettings).length} Arbeitstage, Wochenenden und Feiertage werden übersprungen.`}
+                  {newEntry.kind === 'onCall' && newEntry.hasDeployments && ' Die Einsätze werden dem ersten Tag zugeordnet.'}
+                </p>
+              )}
               
-              {locationLower === 'bereitschaft' && (
+              {newEntry.kind === 'onCall' && (
                   <div className="form-group checkbox-group">
                     <input type="checkbox" id="hasDeployments" name="hasDeployments" checked={newEntry.hasDeployments} onChange={handleInputChange}/>
                     <label htmlFor="hasDeployments">Einsätze vorhanden?</label>
@@ -1285,8 +6890,11 @@ const App = () => {
                     <input type="time" id="endTime" name="endTime" value={newEntry.endTime} onChange={handleInputChange} onBlur={handleNewEntryTimeBlur} disabled={isSpecialEntry} />
                   </div>
               </div>
+              {!isSpecialEntry && isOvernight(newEntry.startTime, newEntry.endTime) && (
+                  <p className="overnight-hint">Endet am Folgetag ({calculateHours(newEntry.startTime, newEntry.endTime).toFixed(2)} Std.)</p>
+              )}
 
-              {locationLower === 'bereitschaft' && newEntry.hasDeployments && (
+              {newEntry.kind === 'onCall' && newEntry.hasDeployments && (
                 <div className="deployment-form-section">
                     <h3>Einsätze hinzufügen</h3>
                     <div className="deployment-inputs">
@@ -1337,8 +6945,40 @@ const App = () => {
                 <p className="subtitle">{`${currentMonthYear} für ${employeeName}`}</p>
             )}
           </header>
-    
+
+          <section className={`month-lock ${reportLock ? 'locked' : ''}`} aria-label="Abgabe">
+            <div className="month-lock-status">
+              {reportLock ? (
+                <>
+                  <p><strong>{`🔒 Abgegeben am ${formatDateTime(reportLock.submittedAt)}`}</strong> – die Einträge sind schreibgeschützt.</p>
+                  <p className="summary-detail">{`Stand der Abgabe: ${describeMonthTotals(reportLock.totals)}`}</p>
+                  {hasChangedSinceSubmit && (
+                    <p className="entry-warning">⚠️ Die aktuellen Summen weichen vom Stand der Abgabe ab, weil sich frühere Monate oder das Arbeitszeitmodell geändert haben.</p>
+                  )}
+                </>
+              ) : (
+                <p>{`${currentMonthYear} ist noch nicht abgegeben.`}</p>
+              )}
+              {reportAuditLog.length > 0 && (
+                <ul className="audit-log">
+                  {reportAuditLog.map(event => <li key={`${event.at}-${event.action}`}>{describeAuditLogEvent(event)}</li>)}
+                </ul>
+              )}
+            </div>
+            {reportLock ? (
+              <button className="file-button" onClick={() => setIsUnlockModalOpen(true)}>Entsperren</button>
+            ) : (
+              <button className="file-button" onClick={handleSubmitMonth} disabled={reportEntries.length === 0}>Monat abgeben</button>
+            )}
+          </section>
+
           <section className="summary-container" aria-label="Zusammenfassung">
+            <div className="summary-card">
+              <h2>Übertrag Vormonat</h2>
+              <p className={`hours ${summaryMetrics.openingBalance >= 0 ? 'positive' : 'negative'}`}>
+                {formatHours(summaryMetrics.openingBalance)} <span className="unit">Std.</span>
+              </p>
+            </div>
             <div className="summary-card">
               <h2>Überstunden Gesamt</h2>
               <p className={`hours ${summaryMetrics.totalOvertime >= 0 ? 'positive' : 'negative'}`}>
@@ -1347,26 +6987,131 @@ const App = () => {
             </div>
             <div className="summary-card">
               <h2>Überstunden Monat</h2>
-              <p className={`hours ${summaryMetrics.currentMonthOvertime >= 0 ? 'positive' : 'negative'}`}>
-                {formatHours(summaryMetrics.currentMonthOvertime)} <span className="unit">Std.</span>
+              <p className={`hours ${summaryMetrics.monthOvertime >= 0 ? 'positive' : 'negative'}`}>
+                {formatHours(summaryMetrics.monthOvertime)} <span className="unit">Std.</span>
               </p>
             </div>
              <div className="summary-card">
-              <h2>Gesamt Arbeitsstunden</h2>
-              <p className="hours neutral">{summaryMetrics.totalWorkHours.toFixed(2)} <span className="unit">Std.</span></p>
+              <h2>Arbeitsstunden Monat</h2>
+              <p className="hours neutral">{summaryMetrics.monthWorkHours.toFixed(2)} <span className="unit">Std.</span></p>
             </div>
             <div className="summary-card">
               <h2>Urlaubstage</h2>
-              <p className="hours neutral">{summaryMetrics.vacationDays}</p>
+              <p className="hours neutral">{formatDays(summaryMetrics.vacationDays)}</p>
+            </div>
+            <div className="summary-card">
+              <h2>{`Resturlaub ${reportDate.getFullYear()}`}</h2>
+              <p className={`hours ${vacationBalance.remaining >= 0 ? 'neutral' : 'negative'}`}>
+                {formatDays(vacationBalance.remaining)} <span className="unit">Tage</span>
+              </p>
+              <p className="summary-detail">
+                {`genommen ${formatDays(vacationBalance.taken)} · geplant ${formatDays(vacationBalance.planned)}`}
+              </p>
+              <p className="summary-detail">
+                {`Anspruch ${formatDays(vacationBalance.entitlement)} + Rest ${formatDays(vacationBalance.carryOver)}`}
+                {vacationBalance.expired > 0 && ` − verfallen ${formatDays(vacationBalance.expired)}`}
+              </p>
             </div>
             <div className="summary-card">
               <h2>Krankentage</h2>
-              <p className="hours neutral">{summaryMetrics.sickDays}</p>
+              <p className="hours neutral">{formatDays(summaryMetrics.sickDays)}</p>
             </div>
+            {summaryMetrics.otherAbsenceDays.size > 0 && (
+              <div className="summary-card">
+                <h2>Sonstige Abwesenheit</h2>
+                <p className="hours neutral">
+                  {formatDays([...summaryMetrics.otherAbsenceDays.values()].reduce((sum, days) => sum + days, 0))} <span className="unit">Tage</span>
+                </p>
+                {[...summaryMetrics.otherAbsenceDays.entries()].map(([typeId, days]) => (
+                  <p key={typeId} className="summary-detail">
+                    {`${absenceTypes.find(t => t.id === typeId)?.name || typeId}: ${formatDays(days)}`}
+                  </p>
+                ))}
+              </div>
+            )}
             <div className="summary-card">
               <h2>Bereitschaftstage</h2>
               <p className="hours neutral">{summaryMetrics.onCallDays}</p>
+              {summaryMetrics.onCallDays > 0 && (
+                <p className="summary-detail">
+                  {`Mo–Fr ${summaryMetrics.onCallDays - summaryMetrics.onCallWeekendDays} · WE/Feiertag ${summaryMetrics.onCallWeekendDays}`}
+                </p>
+              )}
+            </div>
+            {summaryMetrics.onCallDays > 0 && (
+              <>
+                <div className="summary-card">
+                  <h2>Bereitschaftspauschale</h2>
+                  <p className="hours neutral">{formatCurrency(summaryMetrics.onCallAllowance)}</p>
+                </div>
+                <div className="summary-card">
+                  <h2>Einsatzstunden</h2>
+                  <p className="hours neutral">{summaryMetrics.deploymentHours.toFixed(2)} <span className="unit">Std.</span></p>
+                  <p className="summary-detail">angerechnet, in den Arbeitsstunden enthalten</p>
+                </div>
+              </>
+            )}
+            <div className="summary-card">
+              <h2>Arbeit an Feiertagen</h2>
+              <p className="hours neutral">{summaryMetrics.holidayWorkHours.toFixed(2)} <span className="unit">Std.</span></p>
+            </div>
+          </section>
+
+          {surchargeSummary.length > 0 && (
+            <section className="report-section surcharge-summary" aria-label="Zuschläge">
+              <div className="report-section-header">
+                <h2>Zuschläge</h2>
+              </div>
+              <table className="work-time-table">
+                <thead>
+                  <tr>
+                    <th>Zuschlag</th>
+                    <th>Zeitraum</th>
+                    <th>Satz</th>
+                    <th>Stunden</th>
+                    <th>Zuschlagsstunden</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {surchargeSummary.map(({ bucket, hours }) => (
+                    <tr key={bucket.id}>
+                      <td>{bucket.name}</td>
+                      <td>{describeSurchargeWindow(bucket)}</td>
+                      <td>{`${bucket.rate} %`}</td>
+                      <td>{hours.toFixed(2)}</td>
+                      <td>{(hours * bucket.rate / 100).toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          )}
+
+          <section className="report-section overtime-ledger" aria-label="Überstundenkonto">
+            <div className="report-section-header">
+              <h2>Überstundenkonto</h2>
+              <button className="file-button" onClick={() => setIsBookingModalOpen(true)} disabled={!!reportLock}>Überstunden buchen</button>
             </div>
+            <table className="work-time-table">
+              <thead>
+                <tr>
+                  <th>Datum</th>
+                  <th>Buchung</th>
+                  <th>Stunden</th>
+                  <th>Saldo</th>
+                </tr>
+              </thead>
+              <tbody>
+                {overtimeLedger.map(line => (
+                  <tr key={line.key}>
+                    <td>{line.date ? formatDate(line.date) : ''}</td>
+                    <td>{line.label}</td>
+                    <td>{formatHours(line.hours)}</td>
+                    <td>{formatHours(line.balance)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
           </section>
 
           <section className="table-container" aria-label="Zeiteinträge">
@@ -1382,58 +7127,96 @@ const App = () => {
                 </tr>
               </thead>
               <tbody>
-                {sortedEntries.length > 0 ? (
-                  sortedEntries.map((entry, index) => {
-                    const locationLower = entry.location.trim().toLowerCase();
-                    const isSpecialTimeEntry = locationLower === 'urlaub' || locationLower === 'krank' || locationLower === 'bereitschaft';
+                {reportWeeks.length > 0 ? (
+                  reportWeeks.map(week => (
+                    <React.Fragment key={week.key}>
+                      <tr className="week-header-row">
+                        <td colSpan={6}>{`KW ${week.week} · ${formatShortDate(week.from)}–${formatShortDate(week.to)}`}</td>
+                      </tr>
+                      {week.entries.map((entry, index) => {
+                        const holiday = getHolidayName(entry.date, workTimeSettings.federalState);
+                        const isSpecialTimeEntry = !hasTimes(entry.kind);
+                        const hoursDisplay = entry.kind === 'work' ? calculateHours(entry.startTime, entry.endTime).toFixed(2) : '-';
                     
-                    let hoursDisplay;
-                    if (locationLower === 'urlaub' || locationLower === 'krank' || locationLower === 'pause' || locationLower === 'bereitschaft') {
-                        hoursDisplay = '-';
-                    } else {
-                        hoursDisplay = calculateHours(entry.startTime, entry.endTime).toFixed(2);
-                    }
-                    
-                    const isNewDay = index > 0 && entry.date !== sortedEntries[index - 1].date;
-                    const rowClasses = [
-                        locationLower === 'pause' ? 'pause-row' : '',
-                        isNewDay ? 'day-separator' : ''
-                    ].filter(Boolean).join(' ');
-
-                    return (
-                      <React.Fragment key={entry.id}>
-                        <tr className={rowClasses}>
-                          <td data-label="Datum">{formatDate(entry.date)}</td>
-                          <td data-label="Ort / Auftrag">
-                            {entry.location}
-                            {entry.isChildSick ? ' (Kind)' : ''}
-                          </td>
-                          <td data-label="Von">{isSpecialTimeEntry ? '-' : entry.startTime}</td>
-                          <td data-label="Bis">{isSpecialTimeEntry ? '-' : entry.endTime}</td>
-                          <td data-label="Stunden">{hoursDisplay}</td>
-                          <td data-label="Aktionen">
-                            <div className="action-buttons">
-                                <button className="action-button" onClick={() => setEditingEntry(entry)} aria-label="Eintrag bearbeiten">✏️</button>
-                                <button className="action-button" onClick={() => handleDeleteEntry(entry.id)} aria-label="Eintrag löschen">🗑️</button>
-                            </div>
-                          </td>
-                        </tr>
-                        {entry.deployments && entry.deployments.map(dep => (
-                            <tr key={dep.id} className="deployment-row">
-                                <td data-label="Datum"></td>
-                                <td data-label="Ort / Auftrag">{dep.location}</td>
-                                <td data-label="Von">{dep.startTime}</td>
-                                <td data-label="Bis">{dep.endTime}</td>
-                                <td data-label="Stunden">{calculateHours(dep.startTime, dep.endTime).toFixed(2)}</td>
-                                <td></td>
+                        const isNewDay = index > 0 && entry.date !== week.entries[index - 1].date;
+                        const rowClasses = [
+                            entry.kind === 'pause' ? 'pause-row' : '',
+                            isNewDay ? 'day-separator' : ''
+                        ].filter(Boolean).join(' ');
+
+                        return (
+                          <React.Fragment key={entry.id}>
+                            {getHolidaysBefore(week, index).map(h => <HolidayRow key={h.date} holiday={h} />)}
+                            <tr className={rowClasses}>
+                              <td data-label="Datum">
+                                {formatDate(entry.date)}
+                                {holiday && <span className="holiday-marker" title={holiday}>Feiertag</span>}
+                              </td>
+                              <td data-label="Ort / Auftrag">
+                                {getEntryLabel(entry, absenceTypes)}
+                                {entry.isChildSick ? ' (Kind)' : ''}
+                                {entry.isHalfDay ? ' (½ Tag)' : ''}
+                                {(warningsById.get(entry.id) || []).map((w, i) => <span key={i} className="entry-warning">{`⚠️ ${w.message}`}</span>)}
+                              </td>
+                              <td data-label="Von">{isSpecialTimeEntry ? '-' : entry.startTime}</td>
+                              <td data-label="Bis">
+                                {isSpecialTimeEntry ? '-' : entry.endTime}
+                                {!isSpecialTimeEntry && isOvernight(entry.startTime, entry.endTime) && <span className="overnight-marker" title="Endet am Folgetag">+1</span>}
+                              </td>
+                              <td data-label="Stunden">{hoursDisplay}</td>
+                              <td data-label="Aktionen">
+                                {isDateLocked(entry.date) ? (
+                                    <span className="locked-marker" title="Der Monat ist abgegeben">🔒</span>
+                                ) : (
+                                    <div className="action-buttons">
+                                        <button className="action-button" onClick={() => startEditing(entry)} aria-label="Eintrag bearbeiten">✏️</button>
+                                        <button className="action-button" onClick={() => handleDeleteEntry(entry.id)} aria-label="Eintrag löschen">🗑️</button>
+                                    </div>
+                                )}
+                              </td>
                             </tr>
-                        ))}
-                      </React.Fragment>
-                    );
-                  })
+                            {entry.deployments && entry.deployments.map(dep => {
+                              const depHours = getDeploymentHours(dep, onCallSettings);
+                              return (
+                                <tr key={dep.id} className="deployment-row">
+                                    <td data-label="Datum"></td>
+                                    <td data-label="Ort / Auftrag">
+                                        {dep.location}
+                                        {(warningsById.get(dep.id) || []).map((w, i) => <span key={i} className="entry-warning">{`⚠️ ${w.message}`}</span>)}
+                                    </td>
+                                    <td data-label="Von">{dep.startTime}</td>
+                                    <td data-label="Bis">
+                                        {dep.endTime}
+                                        {isOvernight(dep.startTime, dep.endTime) && <span className="overnight-marker" title="Endet am Folgetag">+1</span>}
+                                    </td>
+                                    <td data-label="Stunden">
+                                        {depHours.credited.toFixed(2)}
+                                        {depHours.credited !== depHours.actual && (
+                                            <span className="overnight-marker" title={`Erfasst ${depHours.actual.toFixed(2)} Std.`}>angerechnet</span>
+                                        )}
+                                    </td>
+                                    <td></td>
+                                </tr>
+                              );
+                            })}
+                            {(dayTotalsByEntryId.get(entry.id) || []).map(({ label, date, dayHours }) => (
+                                <DayTotalRow key={label} label={label} dayHours={dayHours} warnings={dayWarningsByDate.get(date) || []} />
+                            ))}
+                          </React.Fragment>
+                        );
+                      })}
+                      {getHolidaysBefore(week, week.entries.length).map(h => <HolidayRow key={h.date} holiday={h} />)}
+                      {week.bookings.map(booking => (
+                        <BookingRow key={booking.id} booking={booking} isLocked={isDateLocked(booking.date)} onDelete={handleDeleteBooking} />
+                      ))}
+                      <WeekTotalRow week={week} />
+                    </React.Fragment>
+                  ))
                 ) : (
                   <tr>
-                    <td colSpan={6} style={{ textAlign: 'center', padding: '2rem' }}>Noch keine Einträge vorhanden.</td>
+                    <td colSpan={6} style={{ textAlign: 'center', padding: '2rem' }}>
+                      {entries.length > 0 ? `Keine Einträge im ${currentMonthYear}.` : 'Noch keine Einträge vorhanden.'}
+                    </td>
                   </tr>
                 )}
               </tbody>